@@ -1,24 +1,52 @@
 import * as vscode from "vscode";
-import { TrackRunner } from "./infra/trackRunner";
+import { TrackRunner, TrackerSet, TrackerState } from "./infra/trackRunner";
 import { Cli } from "./infra/cli";
+import { GitcrumbsClient } from "./infra/client";
 import { ActionsView } from "./ui/actionsView";
 import { TimelineTreeView } from "./ui/timelineTree";
 import { DiffTreeView } from "./ui/diffTree";
 import { TrackingView } from "./ui/trackingView";
+import { HunkCodeLensProvider, applyHunk } from "./ui/hunkLens";
+import { FileHistoryView } from "./ui/fileHistory";
+import { BaselineQuickDiff } from "./ui/baselineQuickDiff";
+import { LineageGraphPanel } from "./ui/lineageGraph";
+import { NOTE_SCHEME, SnapshotNoteFs, editNote } from "./ui/snapshotNotes";
+import { TouchIndex } from "./state/touchIndex";
 import { openFileSideBySide } from "./util/sideBySide";
+import { restorePathFromSnapshot } from "./util/restorePath";
+import { commitSnapshot } from "./util/snapshotCommit";
+import { commitSnapshotSeries } from "./util/snapshotSeries";
+import { bisectSnapshots } from "./util/snapshotBisect";
+import { applyPatchAsSnapshot, exportDiffPatch } from "./util/patches";
+import {
+  SNAPSHOT_SCHEME,
+  SnapshotContentProvider,
+} from "./util/snapshotDocs";
 import { Store } from "./state/store";
+import { SnapshotStoreWatcher } from "./infra/storeWatcher";
+import { SnapshotTriggers } from "./infra/snapshotTriggers";
+import { TaskOutcomeRecorder } from "./infra/taskOutcomes";
+import type { DiffTarget } from "./util/types";
 import {
   selectRepo,
   isGitRepo,
   isGitcrumbsInitialised,
   askToStartTrackingForRepo,
+  pickRepo,
   repoDisplayName,
 } from "./util/selectRepo";
 
 let disposables: vscode.Disposable[] = [];
 
-// Keep a module-level reference so we can stop the tracker on deactivate, etc.
-let trackRunnerRef: TrackRunner | null = null;
+const STATE_ICONS: Record<TrackerState, string> = {
+  running: "●",
+  restarting: "↻",
+  failed: "⚠",
+  stopped: "○",
+};
+
+// Keep a module-level reference so we can stop the trackers on deactivate, etc.
+let trackersRef: TrackerSet | null = null;
 
 /**
  * On startup, if there is a repo path configured/workspace-root:
@@ -33,15 +61,18 @@ async function maybeAutoInitGitcrumbsOnLoad(
   cli: Cli,
   trackRunner: TrackRunner,
   store: Store,
-  repoPath: string
+  repoPath: string,
+  quiet = false
 ) {
   const repoName = repoDisplayName(repoPath);
 
   // only if already a Git repo; do nothing else if not a git repo
   if (!(await isGitRepo(repoPath))) {
-    vscode.window.showInformationMessage(
-      `Gitcrumbs: ${repoName} is not a Git repository.`
-    );
+    // In multi-root workspaces plain folders are normal, so stay quiet
+    if (!quiet)
+      vscode.window.showInformationMessage(
+        `Gitcrumbs: ${repoName} is not a Git repository.`
+      );
     return;
   }
 
@@ -64,7 +95,7 @@ async function maybeAutoInitGitcrumbsOnLoad(
 }
 
 async function runStartUpChecks(
-  trackRunner: TrackRunner,
+  trackers: TrackerSet,
   cli: Cli,
   store: Store,
   context: vscode.ExtensionContext
@@ -132,10 +163,16 @@ async function runStartUpChecks(
     );
   }
 
-  const repoPath = store.repoPath?.() ?? ""; // Store has repoPath()
-  if (repoPath) {
+  const repos = store.repoPaths();
+  for (const repoPath of repos) {
     // Fire and forget – don't block activation on this flow.
-    void maybeAutoInitGitcrumbsOnLoad(cli, trackRunner, store, repoPath);
+    void maybeAutoInitGitcrumbsOnLoad(
+      cli,
+      trackers.get(repoPath),
+      store,
+      repoPath,
+      repos.length > 1
+    );
   }
 }
 
@@ -147,54 +184,140 @@ export async function activate(
 
   const store = new Store(context);
   const cli = new Cli(cliPath);
+  const client = new GitcrumbsClient(cli);
 
-  const trackRunner = new TrackRunner(cli, store);
-  trackRunnerRef = trackRunner;
+  const trackers = new TrackerSet(cli, store);
+  trackersRef = trackers;
 
-  await runStartUpChecks(trackRunner, cli, store, context);
+  await runStartUpChecks(trackers, cli, store, context);
 
   // Tree views
   const actionsView = new ActionsView(store);
-  const timelineView = new TimelineTreeView(store, cli);
-  const diffView = new DiffTreeView(store, cli);
-  const trackingView = new TrackingView();
+  const touchIndex = new TouchIndex(client);
+  const timelineView = new TimelineTreeView(store, cli, client, touchIndex);
+  const diffView = new DiffTreeView(store, cli, client);
+  const trackingView = new TrackingView(store, trackers);
+  const hunkLens = new HunkCodeLensProvider();
+  const fileHistoryView = new FileHistoryView(store, timelineView, touchIndex);
+  const baselineDiff = new BaselineQuickDiff(store);
+  const noteFs = new SnapshotNoteFs(store);
+  disposables.push(
+    new SnapshotTriggers(store, timelineView),
+    new TaskOutcomeRecorder(store, timelineView)
+  );
+  baselineDiff.update();
+  disposables.push(baselineDiff, trackingView);
 
-  // When track CLI creates a snapshot, refresh the timeline
-  trackRunner.onSnapshotCreated(() => {
-    void timelineView.refresh();
+  // Refresh a repo's timeline when its snapshot store changes on disk or
+  // the tracker reports a new snapshot; both paths are debounced.
+  const storeWatcher = new SnapshotStoreWatcher();
+  storeWatcher.sync(store.repoPaths());
+  disposables.push(
+    timelineView,
+    storeWatcher,
+    storeWatcher.onDidChange((repo) => timelineView.scheduleUpdate(repo)),
+    trackers.onSnapshotCreated((repo) => timelineView.scheduleUpdate(repo))
+  );
+
+  // Timeline uses a TreeView (not just a provider) so it can show the filter
+  const timelineTree = vscode.window.createTreeView("gitcrumbs.timeline", {
+    treeDataProvider: timelineView,
+    canSelectMany: true,
   });
+  timelineView.attachView(timelineTree);
+
+  // Commands without an explicit target follow the editor or the timeline
+  // selection to the repository the user is working in.
+  const setActiveRepo = (repo: string | undefined) => {
+    if (!repo || repo === store.repoPath()) return;
+    store.setActiveRepo(repo);
+    actionsView.refresh();
+    LineageGraphPanel.refresh();
+  };
+  const editorRepo = vscode.window.activeTextEditor
+    ? store.repoForUri(vscode.window.activeTextEditor.document.uri)
+    : undefined;
+  if (editorRepo) store.setActiveRepo(editorRepo);
 
   disposables.push(
+    timelineTree,
     vscode.window.registerTreeDataProvider("gitcrumbs.actions", actionsView),
-    vscode.window.registerTreeDataProvider("gitcrumbs.timeline", timelineView),
     vscode.window.registerTreeDataProvider("gitcrumbs.diff", diffView),
-    vscode.window.registerTreeDataProvider("gitcrumbs.tracking", trackingView)
+    vscode.window.registerTreeDataProvider("gitcrumbs.tracking", trackingView),
+    vscode.window.registerTreeDataProvider(
+      "gitcrumbs.fileHistory",
+      fileHistoryView
+    ),
+    vscode.window.onDidChangeActiveTextEditor((editor) => {
+      if (editor) setActiveRepo(store.repoForUri(editor.document.uri));
+      void fileHistoryView.refresh();
+    }),
+    timelineTree.onDidChangeSelection((e) => {
+      const repo = (e.selection[0] as { repoPath?: string } | undefined)
+        ?.repoPath;
+      setActiveRepo(repo);
+    }),
+    timelineView.onDidChangeTreeData(() => {
+      void fileHistoryView.refresh();
+    }),
+    vscode.workspace.registerTextDocumentContentProvider(
+      SNAPSHOT_SCHEME,
+      new SnapshotContentProvider(cli, store)
+    ),
+    vscode.workspace.registerFileSystemProvider(NOTE_SCHEME, noteFs, {
+      isCaseSensitive: true,
+    }),
+    noteFs.onDidSaveNote(() => timelineView.redraw()),
+    vscode.languages.registerCodeLensProvider(
+      { scheme: "file" },
+      hunkLens
+    ),
+    vscode.window.tabGroups.onDidChangeTabs(() => hunkLens.refresh())
   );
 
   // Commands
   disposables.push(
-    vscode.commands.registerCommand("gitcrumbs.startTracking", async () => {
-      const repoPath = store.repoPath();
-      if (repoPath) {
+    vscode.commands.registerCommand(
+      "gitcrumbs.startTracking",
+      async (item?: { repoPath?: string }) => {
+        const repoPath =
+          item?.repoPath ??
+          (await pickRepo(
+            store.repoPaths().filter((r) => !trackers.get(r).isRunning),
+            "Start tracking which repository?"
+          ));
+        if (!repoPath) {
+          if (!store.repoPaths().length)
+            vscode.window.showInformationMessage("Open a repository first.");
+          return;
+        }
         await store.setTrackingPreference(
           store.repoIdForPath(repoPath),
           "auto"
         );
+        trackers.get(repoPath).start();
       }
-      trackRunner.start();
-    }),
-    vscode.commands.registerCommand("gitcrumbs.stopTracking", async () => {
-      const repoPath = store.repoPath();
-      if (repoPath) {
+    ),
+    vscode.commands.registerCommand(
+      "gitcrumbs.stopTracking",
+      async (item?: { repoPath?: string }) => {
+        const repoPath =
+          item?.repoPath ??
+          (await pickRepo(
+            trackers.running().map((r) => r.repo),
+            "Stop tracking which repository?"
+          ));
+        if (!repoPath) return;
         await store.setTrackingPreference(
           store.repoIdForPath(repoPath),
           "never"
         );
+        trackers.get(repoPath).stop();
       }
-      trackRunner.stop();
-    }),
-    vscode.commands.registerCommand("gitcrumbs.snapshotNow", () =>
-      timelineView.snapshotNow()
+    ),
+    vscode.commands.registerCommand(
+      "gitcrumbs.snapshotNow",
+      (item?: { repoPath?: string }) => timelineView.snapshotNow(item?.repoPath)
     ),
     vscode.commands.registerCommand("gitcrumbs.restore", (item: unknown) =>
       timelineView.restore(item as any)
@@ -205,6 +328,9 @@ export async function activate(
     vscode.commands.registerCommand("gitcrumbs.previous", () =>
       timelineView.previous()
     ),
+    vscode.commands.registerCommand("gitcrumbs.undoRestore", () =>
+      timelineView.undoLastMove()
+    ),
     vscode.commands.registerCommand("gitcrumbs.setSnapshotA", (item: unknown) =>
       diffView.setA(item as any)
     ),
@@ -214,28 +340,145 @@ export async function activate(
     vscode.commands.registerCommand("gitcrumbs.clearSelection", () =>
       diffView.clearSelection()
     ),
+    vscode.commands.registerCommand("gitcrumbs.sortDiff", () =>
+      diffView.chooseSort()
+    ),
     vscode.commands.registerCommand("gitcrumbs.openDiff", (item: unknown) =>
       diffView.openDiff(item as any)
     ),
-    vscode.commands.registerCommand(
-      "gitcrumbs.selectRepo",
-      async () =>
-        await selectRepo(timelineView, trackRunner, cli, actionsView, store)
+    vscode.commands.registerCommand("gitcrumbs.selectRepo", async () => {
+      await selectRepo(timelineView, trackers, cli, actionsView, store);
+      trackers.sync(store.repoPaths());
+      storeWatcher.sync(store.repoPaths());
+      diffView.refresh();
+      baselineDiff.update();
+    }),
+    vscode.commands.registerCommand("gitcrumbs.showTrackerLog", () =>
+      trackers.log.show(true)
     ),
     vscode.commands.registerCommand("gitcrumbs.refreshTimeline", () =>
       timelineView.refresh()
     ),
+    vscode.commands.registerCommand("gitcrumbs.filterTimeline", () =>
+      timelineView.editFilter()
+    ),
+    vscode.commands.registerCommand("gitcrumbs.clearTimelineFilter", () =>
+      timelineView.clearFilter()
+    ),
+    vscode.commands.registerCommand("gitcrumbs.showLastGreen", () =>
+      timelineView.showLastGreen()
+    ),
+    vscode.commands.registerCommand("gitcrumbs.groupTimeline", () =>
+      timelineView.chooseGrouping()
+    ),
+    vscode.commands.registerCommand("gitcrumbs.showLineage", () =>
+      LineageGraphPanel.show(timelineView, store)
+    ),
     vscode.commands.registerCommand(
       "gitcrumbs.renameSnapshot",
       (item: unknown) => timelineView.rename(item as any)
     ),
+    vscode.commands.registerCommand(
+      "gitcrumbs.commitSnapshot",
+      (item?: { snapshotId?: number; repoPath?: string }) =>
+        commitSnapshot(item, { cli, client, store, timeline: timelineView })
+    ),
+    vscode.commands.registerCommand("gitcrumbs.exportPatch", () =>
+      exportDiffPatch({
+        cli,
+        client,
+        store,
+        timeline: timelineView,
+        getPair: () => diffView.pair,
+      })
+    ),
+    vscode.commands.registerCommand("gitcrumbs.applyPatch", (uri?: unknown) =>
+      applyPatchAsSnapshot(uri, {
+        cli,
+        client,
+        store,
+        timeline: timelineView,
+        getPair: () => diffView.pair,
+      })
+    ),
+    vscode.commands.registerCommand("gitcrumbs.bisect", () =>
+      bisectSnapshots({ cli, store, timeline: timelineView })
+    ),
+    vscode.commands.registerCommand("gitcrumbs.commitSeries", () =>
+      commitSnapshotSeries({
+        cli,
+        client,
+        store,
+        timeline: timelineView,
+        getPair: () => diffView.pair,
+      })
+    ),
+    vscode.commands.registerCommand(
+      "gitcrumbs.deleteSnapshot",
+      (item?: unknown, selected?: unknown[]) =>
+        timelineView.deleteSnapshots(item as any, selected)
+    ),
+    vscode.commands.registerCommand(
+      "gitcrumbs.pruneSnapshots",
+      (item?: { repoPath?: string }) => timelineView.prune(item?.repoPath)
+    ),
+    vscode.commands.registerCommand(
+      "gitcrumbs.pinSnapshot",
+      (item?: unknown, selected?: unknown[]) =>
+        timelineView.setPinned(true, item as any, selected)
+    ),
+    vscode.commands.registerCommand(
+      "gitcrumbs.unpinSnapshot",
+      (item?: unknown, selected?: unknown[]) =>
+        timelineView.setPinned(false, item as any, selected)
+    ),
+    vscode.commands.registerCommand(
+      "gitcrumbs.editNote",
+      (item?: { snapshotId?: number; repoPath?: string }) =>
+        editNote(item, async () => {
+          const repo = store.repoPath();
+          const row = await timelineView.pickSnapshot(
+            "Edit the note of which snapshot?",
+            repo
+          );
+          return repo && row ? { id: row.id, repo } : undefined;
+        })
+    ),
+    vscode.commands.registerCommand("gitcrumbs.applyHunk", applyHunk),
+    vscode.commands.registerCommand(
+      "gitcrumbs.setBaseline",
+      async (item: unknown) => {
+        await timelineView.setBaseline(item as any);
+        baselineDiff.update();
+      }
+    ),
+    vscode.commands.registerCommand("gitcrumbs.clearBaseline", async () => {
+      await timelineView.clearBaseline();
+      baselineDiff.update();
+    }),
+    vscode.commands.registerCommand(
+      "gitcrumbs.restorePath",
+      (target: unknown) =>
+        restorePathFromSnapshot(target, {
+          cli,
+          client,
+          store,
+          timeline: timelineView,
+        })
+    ),
     vscode.commands.registerCommand(
       "gitcrumbs.openFileSideBySide",
-      async (relPathOrItem: unknown, a?: number, b?: number) => {
+      async (
+        relPathOrItem: unknown,
+        a?: DiffTarget,
+        b?: DiffTarget,
+        repo?: string
+      ) => {
         await openFileSideBySide(relPathOrItem, a, b, {
           cli,
           store,
-          getPair: () => (diffView as any).pair as { a?: number; b?: number },
+          getPair: () => diffView.pair,
+          repo,
         });
       }
     )
@@ -246,59 +489,101 @@ export async function activate(
     vscode.StatusBarAlignment.Left,
     100
   );
-  status.text = "Gitcrumbs: ○ Stopped";
-  status.command = "gitcrumbs.startTracking";
-  status.tooltip = `Start tracking ${repoDisplayName(
-    store.repoPath() ?? ""
-  )}`.trim();
   status.show();
   disposables.push(status);
 
   const setCtx = (k: string, v: any) =>
     vscode.commands.executeCommand("setContext", k, v);
-  trackRunner.onStateChanged((running: boolean) => {
-    status.text = running ? "Gitcrumbs: ● Tracking" : "Gitcrumbs: ○ Stopped";
-    status.command = running
-      ? "gitcrumbs.stopTracking"
-      : "gitcrumbs.startTracking";
-    setCtx("gitcrumbs.isTracking", running);
-    status.tooltip = `${running ? "Stop" : "Start"} tracking ${repoDisplayName(
-      store.repoPath() ?? ""
-    )}`.trim();
-  });
+  const updateStatus = () => {
+    const repos = store.repoPaths();
+    const running = repos.filter((r) => trackers.get(r).isRunning);
+    const any = running.length > 0;
+    const all = repos.length > 0 && running.length === repos.length;
+
+    const stateOf = (r: string) => trackers.get(r).state;
+    const failed = repos.some((r) => stateOf(r) === "failed");
+    const restarting = repos.some((r) => stateOf(r) === "restarting");
+
+    if (repos.length <= 1) {
+      status.text = restarting
+        ? "Gitcrumbs: ↻ Restarting"
+        : failed
+        ? "Gitcrumbs: ⚠ Tracker failed"
+        : any
+        ? "Gitcrumbs: ● Tracking"
+        : "Gitcrumbs: ○ Stopped";
+      status.tooltip = `${any ? "Stop" : "Start"} tracking ${repoDisplayName(
+        repos[0] ?? ""
+      )}`.trim();
+    } else {
+      // Summarise across repositories, e.g. "● Tracking 2/3"
+      status.text = any
+        ? `Gitcrumbs: ● Tracking ${running.length}/${repos.length}`
+        : "Gitcrumbs: ○ Stopped";
+      status.tooltip = repos
+        .map((r) => `${STATE_ICONS[stateOf(r)]} ${repoDisplayName(r)}`)
+        .join("\n");
+      if (failed) status.text += " ⚠";
+    }
+    status.command = all ? "gitcrumbs.stopTracking" : "gitcrumbs.startTracking";
+    setCtx("gitcrumbs.isTracking", any);
+    setCtx("gitcrumbs.allTracking", all);
+  };
+  updateStatus();
+  trackers.onStateChanged(() => updateStatus());
 
   // Initial refresh
   await timelineView.refresh();
   diffView.refresh();
 
-  // -------- auto-refresh timeline every 30 seconds --------
-  const intervalId = setInterval(() => {
-    void timelineView.refresh();
-  }, 30_000);
-  // Make sure we clear it on deactivate
-  disposables.push({
-    dispose: () => clearInterval(intervalId),
-  });
-
-  // -------- auto-stop tracker on workspace changes --------
-  const workspaceSub = vscode.workspace.onDidChangeWorkspaceFolders(() => {
-    if (trackRunner.isRunning) {
-      // This is an automatic stop due to workspace change,
-      // do NOT change the user's tracking preference.
-      trackRunner.stop();
+  // -------- scheduled pruning (gitcrumbs.retention.autoPruneHours) --------
+  const maybeAutoPrune = async () => {
+    const hours = vscode.workspace
+      .getConfiguration("gitcrumbs.retention")
+      .get<number>("autoPruneHours", 0);
+    if (!hours) return;
+    for (const repo of store.repoPaths()) {
+      const last = store.getLastPrune(store.repoIdForPath(repo));
+      if (Date.now() - last >= hours * 3_600_000)
+        await timelineView.prune(repo, true);
     }
+  };
+  void maybeAutoPrune();
+  const pruneTimer = setInterval(() => void maybeAutoPrune(), 3_600_000);
+  disposables.push({ dispose: () => clearInterval(pruneTimer) });
+
+  // -------- keep one tracker per repo as workspace folders change --------
+  const workspaceSub = vscode.workspace.onDidChangeWorkspaceFolders((e) => {
+    // Trackers of removed folders stop automatically; this does NOT
+    // change the user's tracking preference.
+    trackers.sync(store.repoPaths());
+    storeWatcher.sync(store.repoPaths());
+    for (const added of e.added) {
+      const repoPath = added.uri.fsPath;
+      if (!store.repoPaths().includes(repoPath)) continue;
+      void maybeAutoInitGitcrumbsOnLoad(
+        cli,
+        trackers.get(repoPath),
+        store,
+        repoPath,
+        true
+      );
+    }
+    updateStatus();
+    trackingView.refresh();
+    actionsView.refresh();
+    diffView.refresh();
+    void timelineView.refresh();
   });
-  disposables.push(workspaceSub);
+  disposables.push(workspaceSub, trackers);
 
   context.subscriptions.push(...disposables);
 }
 
 export function deactivate() {
-  // Ensure tracker is stopped when the extension is deactivated
-  if (trackRunnerRef?.isRunning) {
-    // Deactivation is also automatic – don't touch preferences.
-    trackRunnerRef.stop();
-  }
+  // Ensure trackers are stopped when the extension is deactivated.
+  // Deactivation is also automatic – don't touch preferences.
+  trackersRef?.stopAll();
 
   for (const d of disposables.splice(0)) {
     try {
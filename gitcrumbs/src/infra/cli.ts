@@ -95,7 +95,14 @@ export class Cli {
     return spawn(bin, args, {
       cwd,
       shell: false,
-      env: { ...process.env, COLUMNS: "10000", NO_COLOR: "1" },
+      // Python block-buffers piped stdout; without this, "Snapshot created"
+      // lines only arrive when the buffer fills or the process exits.
+      env: {
+        ...process.env,
+        COLUMNS: "10000",
+        NO_COLOR: "1",
+        PYTHONUNBUFFERED: "1",
+      },
     });
   }
 
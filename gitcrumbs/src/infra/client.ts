@@ -0,0 +1,147 @@
+import type { Cli, CliResult } from "./cli";
+import {
+  WORKING_TREE,
+  type Change,
+  type DiffTarget,
+  type SnapshotRow,
+  type StatusInfo,
+} from "../util/types";
+import {
+  stripAnsi,
+  parseTimelineJson,
+  parseTimelineTable,
+  parseStatusJson,
+  parseStatusText,
+  parseDiffJson,
+  parseDiffTable,
+} from "./parsers";
+
+/** Parsed CLI output plus the raw result (for error reporting). */
+export type ClientResult<T> = { res: CliResult; data: T | null };
+
+/**
+ * Typed access to the gitcrumbs read commands.
+ *
+ * Newer CLIs accept `--json`; we try that first and remember whether the
+ * binary understood it. Older CLIs reject the option, in which case we fall
+ * back to parsing the human-readable tables for the rest of the session.
+ */
+export class GitcrumbsClient {
+  // null = not probed yet
+  private jsonSupported: boolean | null = null;
+  private afterSupported: boolean | null = null;
+
+  constructor(readonly cli: Cli) {}
+
+  async timeline(repo: string): Promise<ClientResult<SnapshotRow[]>> {
+    return this.runParsed(["timeline"], repo, parseTimelineJson, (t) =>
+      parseTimelineTable(t)
+    );
+  }
+
+  /**
+   * Snapshots with an id greater than `afterId`. Uses `timeline --after`
+   * where the CLI has it (only tried once JSON is known to work, so an
+   * unknown-option error can't be confused with a missing `--json`);
+   * otherwise fetches the full timeline and drops the older rows.
+   */
+  async timelineSince(
+    repo: string,
+    afterId: number
+  ): Promise<ClientResult<SnapshotRow[]>> {
+    if (this.jsonSupported === true && this.afterSupported !== false) {
+      const res = await this.cli.run(
+        ["timeline", "--after", String(afterId), "--json"],
+        repo
+      );
+      if (res.code === 0) {
+        try {
+          const data = parseTimelineJson(JSON.parse(res.stdout));
+          this.afterSupported = true;
+          return { res, data: data.filter((s) => s.id > afterId) };
+        } catch {
+          // Fall through to a full fetch.
+        }
+      } else if (!isUnknownOption(res)) {
+        return { res, data: null };
+      } else {
+        this.afterSupported = false;
+      }
+    }
+
+    const full = await this.timeline(repo);
+    return {
+      res: full.res,
+      data: full.data?.filter((s) => s.id > afterId) ?? null,
+    };
+  }
+
+  async status(repo: string): Promise<ClientResult<StatusInfo>> {
+    return this.runParsed(["status"], repo, parseStatusJson, parseStatusText);
+  }
+
+  /**
+   * Changes from `a` to `b`. Either side may be the working tree: the CLI
+   * compares a single snapshot id against the files on disk, so when the
+   * working tree is on the left we run it the other way round and flip the
+   * added/deleted kinds.
+   */
+  async diff(
+    repo: string,
+    a: DiffTarget,
+    b: DiffTarget
+  ): Promise<ClientResult<Change[]>> {
+    if (a === WORKING_TREE && b === WORKING_TREE) {
+      return { res: { code: 0, stdout: "", stderr: "" }, data: [] };
+    }
+    if (a === WORKING_TREE) {
+      const reversed = await this.diff(repo, b, a);
+      return {
+        res: reversed.res,
+        data:
+          reversed.data?.map((c) => ({
+            path: c.path,
+            kind: c.kind === "A" ? "D" : c.kind === "D" ? "A" : "M",
+          })) ?? null,
+      };
+    }
+    const args =
+      b === WORKING_TREE
+        ? ["diff", String(a), "--all"]
+        : ["diff", String(a), String(b), "--all"];
+    return this.runParsed(args, repo, parseDiffJson, parseDiffTable);
+  }
+
+  private async runParsed<T>(
+    args: string[],
+    repo: string,
+    fromJson: (data: unknown) => T,
+    fromText: (text: string) => T
+  ): Promise<ClientResult<T>> {
+    if (this.jsonSupported !== false) {
+      const res = await this.cli.run([...args, "--json"], repo);
+      if (res.code === 0) {
+        try {
+          const data = fromJson(JSON.parse(res.stdout));
+          this.jsonSupported = true;
+          return { res, data };
+        } catch {
+          // Accepted the flag but printed something else: parse it as text.
+          return { res, data: fromText(stripAnsi(res.stdout)) };
+        }
+      }
+      if (!isUnknownOption(res)) return { res, data: null };
+      this.jsonSupported = false;
+    }
+
+    const res = await this.cli.run(args, repo);
+    if (res.code !== 0) return { res, data: null };
+    return { res, data: fromText(stripAnsi(res.stdout)) };
+  }
+}
+
+function isUnknownOption(res: CliResult): boolean {
+  return /no such option|unrecognized arguments|unknown option/i.test(
+    `${res.stderr}\n${res.stdout}`
+  );
+}
@@ -0,0 +1,48 @@
+import { spawn } from "child_process";
+import type { CliResult } from "./cli";
+
+export type GitOptions = {
+  /** Extra environment, e.g. GIT_INDEX_FILE for a scratch index. */
+  env?: Record<string, string>;
+  /** Written to stdin, then stdin is closed. */
+  input?: string | Buffer;
+};
+
+/** Run `git` in `cwd`. Never rejects; spawn failures come back as code 127. */
+export function git(
+  args: string[],
+  cwd: string,
+  opts: GitOptions = {}
+): Promise<CliResult> {
+  return new Promise<CliResult>((resolve) => {
+    const child = spawn("git", args, {
+      cwd,
+      shell: false,
+      env: { ...process.env, ...opts.env },
+    });
+    let stdout = "",
+      stderr = "";
+    child.stdout.on("data", (b) => (stdout += b.toString()));
+    child.stderr.on("data", (b) => (stderr += b.toString()));
+    child.on("close", (code) => resolve({ code: code ?? 0, stdout, stderr }));
+    child.on("error", () =>
+      resolve({ code: 127, stdout: "", stderr: "Failed to run git" })
+    );
+    child.stdin.end(opts.input);
+  });
+}
+
+/** Like git(), but throws with stderr on a non-zero exit; returns stdout trimmed. */
+export async function gitOrThrow(
+  args: string[],
+  cwd: string,
+  opts?: GitOptions
+): Promise<string> {
+  const res = await git(args, cwd, opts);
+  if (res.code !== 0) {
+    throw new Error(
+      `git ${args[0]} failed: ${res.stderr.trim() || `exit ${res.code}`}`
+    );
+  }
+  return res.stdout.trim();
+}
@@ -0,0 +1,218 @@
+import type {
+  Change,
+  ChangeKind,
+  SnapshotRow,
+  StatusInfo,
+} from "../util/types";
+
+/**
+ * Pure parsers for gitcrumbs CLI output.
+ *
+ * Each command has a JSON parser (for CLIs that understand `--json`) and a
+ * table parser for the Rich-style `│` tables printed by older versions.
+ * None of these touch VS Code, so they can be exercised with plain fixtures.
+ */
+
+export function stripAnsi(s: string): string {
+  return s.replace(/\x1B\[[0-9;]*m/g, "");
+}
+
+// ---------- JSON ----------
+
+const toNum = (v: unknown): number | null => {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string" && /^\d+$/.test(v.trim())) return Number(v);
+  return null;
+};
+
+const toStr = (v: unknown): string | null =>
+  typeof v === "string" && v.length ? v : null;
+
+export function parseTimelineJson(data: unknown): SnapshotRow[] {
+  const list = Array.isArray(data)
+    ? data
+    : Array.isArray((data as any)?.snapshots)
+    ? (data as any).snapshots
+    : [];
+  const rows: SnapshotRow[] = [];
+  for (const r of list) {
+    const id = toNum(r?.id);
+    if (id === null) continue;
+    rows.push({
+      id,
+      label: toStr(r.label),
+      created_at: toStr(r.created_at) ?? "",
+      branch: toStr(r.branch),
+      summary: toStr(r.summary),
+      restored_from_snapshot_id: toNum(r.restored_from_snapshot_id),
+      // Only the JSON output carries the git HEAD a snapshot was taken on
+      head_commit: toStr(r.head_commit ?? r.head_sha ?? r.head),
+    });
+  }
+  return rows;
+}
+
+export function parseStatusJson(data: unknown): StatusInfo {
+  const d = (data ?? {}) as any;
+  return {
+    cursorId: toNum(d.cursor_snapshot_id ?? d.cursor ?? d.current_snapshot_id),
+  };
+}
+
+export function parseDiffJson(data: unknown): Change[] {
+  const out: Change[] = [];
+  const d = data as any;
+
+  // Shape 1: [{ path, kind|status }]
+  const list = Array.isArray(d) ? d : Array.isArray(d?.changes) ? d.changes : null;
+  if (list) {
+    for (const c of list) {
+      const p = toStr(c?.path);
+      const kind = toKind(String(c?.kind ?? c?.status ?? ""));
+      if (p && kind) out.push({ path: p, kind });
+    }
+    return out;
+  }
+
+  // Shape 2: { added: [...], modified: [...], deleted: [...] }
+  const groups: [string, ChangeKind][] = [
+    ["added", "A"],
+    ["modified", "M"],
+    ["deleted", "D"],
+  ];
+  for (const [key, kind] of groups) {
+    const files = d?.[key];
+    if (!Array.isArray(files)) continue;
+    for (const f of files) {
+      const p = toStr(f);
+      if (p) out.push({ path: p, kind });
+    }
+  }
+  return out;
+}
+
+function toKind(s: string): ChangeKind | null {
+  const k = s.trim().toLowerCase();
+  if (k === "a" || k === "added") return "A";
+  if (k === "m" || k === "modified") return "M";
+  if (k === "d" || k === "deleted") return "D";
+  return null;
+}
+
+// ---------- Tables ----------
+
+export function parseStatusText(text: string): StatusInfo {
+  // Expect lines like: "Cursor snapshot id: 12"
+  const m = text.match(/Cursor snapshot id:\s*(\d+)/i);
+  return { cursorId: m ? Number(m[1]) : null };
+}
+
+export function parseDiffTable(text: string): Change[] {
+  const out: Change[] = [];
+  const lines = text.split(/\r?\n/);
+  const row =
+    /^\s*[│|]\s*(Added|Deleted|Modified)\s*[│|]\s*(\d+)\s*[│|]\s*(.*?)\s*[│|]?\s*$/;
+  const toKind = (c: string): ChangeKind =>
+    c === "Added" ? "A" : c === "Deleted" ? "D" : "M";
+  for (const line of lines) {
+    const m = row.exec(line);
+    if (!m) continue;
+    const cat = m[1],
+      count = Number(m[2]),
+      filesCell = (m[3] || "").trim();
+    if (!count || !filesCell || filesCell === "(none)") continue;
+    for (const raw of filesCell
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean)) {
+      out.push({ path: raw, kind: toKind(cat) });
+    }
+  }
+  return out;
+}
+
+export function parseTimelineTable(text: string): SnapshotRow[] {
+  const rows: SnapshotRow[] = [];
+
+  // Keep only content lines that start with a vertical border (│ or |)
+  const lines = text.split(/\r?\n/).filter((l) => /^\s*[│|]/.test(l));
+  if (!lines.length) return rows;
+
+  // #, Label, Created, Branch, Summary, Resumed-From
+  const grab6 = (line: string): string[] | null => {
+    const m = line.match(
+      /^\s*[│|]\s*(.*?)\s*[│|]\s*(.*?)\s*[│|]\s*(.*?)\s*[│|]\s*(.*?)\s*[│|]\s*(.*?)\s*[│|]\s*(.*?)\s*[│|]\s*$/
+    );
+    return m ? m.slice(1).map((s) => s.trim()) : null;
+  };
+
+  type Building = {
+    id: number;
+    label?: string | null;
+    createdDateTime?: string;
+    branchParts: string[];
+    summaryParts: string[];
+    resumed?: number | null;
+  };
+  let cur: Building | null = null;
+
+  const looksDateTime = (s: string) =>
+    /^\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}$/.test(s);
+
+  const flush = () => {
+    if (!cur) return;
+    const created_at = cur.createdDateTime ?? "";
+    const branch = cur.branchParts.join(" ").trim() || null;
+    const summary =
+      cur.summaryParts.join(" ").replace(/\s+/g, " ").trim() || null;
+    rows.push({
+      id: cur.id,
+      label: cur.label ?? null,
+      created_at,
+      branch,
+      summary,
+      restored_from_snapshot_id: cur.resumed ?? null,
+    });
+    cur = null;
+  };
+
+  for (const line of lines) {
+    const cells = grab6(line);
+    if (!cells) continue;
+    const [c1, c2, c3, c4, c5, c6] = cells;
+
+    if (/^\d+$/.test(c1)) {
+      // New logical row
+      flush();
+      cur = {
+        id: Number(c1),
+        label: c2 || null,
+        branchParts: [],
+        summaryParts: [],
+        resumed: null,
+      };
+
+      if (c3 && looksDateTime(c3)) {
+        cur.createdDateTime = c3;
+      } else if (c3) {
+        // Be tolerant: store whatever we got
+        cur.createdDateTime = c3;
+      }
+
+      if (c4) cur.branchParts.push(c4);
+      if (c5) cur.summaryParts.push(c5);
+      if (/^\d+$/.test(c6)) cur.resumed = Number(c6);
+      continue;
+    }
+
+    // Continuation line (unlikely now, but keep it semi-robust)
+    if (!cur) continue;
+    if (c3 && !cur.createdDateTime) cur.createdDateTime = c3;
+    if (c4) cur.branchParts.push(c4);
+    if (c5) cur.summaryParts.push(c5);
+    if (/^\d+$/.test(c6)) cur.resumed = Number(c6);
+  }
+
+  flush();
+  return rows;
+}
@@ -0,0 +1,120 @@
+import * as vscode from "vscode";
+import type { Store } from "../state/store";
+import type { TimelineTreeView } from "../ui/timelineTree";
+import { triggerLabel } from "./triggerLabels";
+
+export type SnapshotTrigger =
+  | "onSave"
+  | "beforeDebug"
+  | "afterTask"
+  | "onFocusLost"
+  | "beforeRestore";
+
+/** Trigger settings are resource-scoped, so each folder can differ. */
+export function triggerEnabled(repo: string, trigger: SnapshotTrigger) {
+  return vscode.workspace
+    .getConfiguration("gitcrumbs.triggers", vscode.Uri.file(repo))
+    .get<boolean>(trigger, trigger === "beforeRestore");
+}
+
+/** Seconds to wait after one snapshot of a throttled trigger. */
+function minInterval(repo: string, setting: string, fallback: number) {
+  return vscode.workspace
+    .getConfiguration("gitcrumbs.triggers", vscode.Uri.file(repo))
+    .get<number>(setting, fallback);
+}
+
+/**
+ * Takes snapshots in response to editor events, in addition to the CLI's
+ * quiet-period tracker. Each trigger is set per repository (settings
+ * under `gitcrumbs.triggers`), and its snapshots are labelled after it.
+ * The snapshot before restore/next/previous is taken by TimelineTreeView,
+ * since it is what undoing the move restores; `beforeRestore` turns it off.
+ */
+export class SnapshotTriggers implements vscode.Disposable {
+  private subs: vscode.Disposable[] = [];
+  private lastSave = new Map<string, number>();
+  private lastFocusLost = new Map<string, number>();
+
+  constructor(
+    private readonly store: Store,
+    private readonly timeline: TimelineTreeView
+  ) {
+    this.subs.push(
+      vscode.workspace.onDidSaveTextDocument((doc) => this.onSave(doc)),
+      vscode.tasks.onDidEndTaskProcess((e) => this.onTaskEnd(e)),
+      vscode.window.onDidChangeWindowState((s) => {
+        if (!s.focused) void this.onFocusLost();
+      }),
+      // Resolving a debug configuration happens before launch and may be
+      // async, which lets the snapshot finish before the program starts.
+      vscode.debug.registerDebugConfigurationProvider("*", {
+        resolveDebugConfiguration: async (folder, config) => {
+          const repos = folder
+            ? [this.store.repoForUri(folder.uri)].filter(
+                (r): r is string => !!r
+              )
+            : this.store.repoPaths();
+          await this.snapshotEach(repos, "beforeDebug", "before debug");
+          return config;
+        },
+      })
+    );
+  }
+
+  private onSave(doc: vscode.TextDocument) {
+    if (doc.uri.scheme !== "file") return;
+    const repo = this.store.repoForUri(doc.uri);
+    if (!repo || !triggerEnabled(repo, "onSave")) return;
+
+    const interval = minInterval(repo, "onSaveInterval", 300);
+    const now = Date.now();
+    if (now - (this.lastSave.get(repo) ?? 0) < interval * 1000) return;
+    this.lastSave.set(repo, now);
+    void this.timeline.snapshotNow(repo, triggerLabel("save"));
+  }
+
+  /** Switching windows back and forth snapshots at most once per interval. */
+  private onFocusLost() {
+    const now = Date.now();
+    const repos = this.store.repoPaths().filter((repo) => {
+      if (!triggerEnabled(repo, "onFocusLost")) return false;
+      const interval = minInterval(repo, "onFocusLostInterval", 300);
+      if (now - (this.lastFocusLost.get(repo) ?? 0) < interval * 1000)
+        return false;
+      this.lastFocusLost.set(repo, now);
+      return true;
+    });
+    return this.snapshotEach(repos, "onFocusLost", "focus lost");
+  }
+
+  private onTaskEnd(e: vscode.TaskProcessEndEvent) {
+    const scope = e.execution.task.scope;
+    const repos =
+      typeof scope === "object"
+        ? [this.store.repoForUri(scope.uri)].filter((r): r is string => !!r)
+        : this.store.repoPaths();
+    const outcome =
+      e.exitCode === 0 ? "ok" : `failed (exit ${e.exitCode ?? "?"})`;
+    void this.snapshotEach(
+      repos,
+      "afterTask",
+      `task ${e.execution.task.name} ${outcome}`
+    );
+  }
+
+  private async snapshotEach(
+    repos: string[],
+    trigger: SnapshotTrigger,
+    what: string
+  ) {
+    const enabled = repos.filter((r) => triggerEnabled(r, trigger));
+    await Promise.all(
+      enabled.map((r) => this.timeline.snapshotNow(r, triggerLabel(what)))
+    );
+  }
+
+  dispose() {
+    for (const d of this.subs.splice(0)) d.dispose();
+  }
+}
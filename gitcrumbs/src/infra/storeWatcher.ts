@@ -0,0 +1,50 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+/** Where `gitcrumbs init` keeps its snapshot store, relative to the repo. */
+export const GITCRUMBS_DIR = path.join(".git", "gitcrumbs");
+
+/**
+ * Watches each repository's gitcrumbs data directory and reports which
+ * repository's snapshot store was written to. Consumers debounce.
+ */
+export class SnapshotStoreWatcher implements vscode.Disposable {
+  private watchers = new Map<string, vscode.FileSystemWatcher>();
+
+  private emitter = new vscode.EventEmitter<string>();
+  readonly onDidChange = this.emitter.event;
+
+  /** Watch exactly the given repositories. */
+  sync(repos: string[]) {
+    for (const [repo, w] of this.watchers) {
+      if (repos.includes(repo)) continue;
+      w.dispose();
+      this.watchers.delete(repo);
+    }
+    for (const repo of repos) {
+      if (!this.watchers.has(repo)) this.watchers.set(repo, this.watch(repo));
+    }
+  }
+
+  private watch(repo: string): vscode.FileSystemWatcher {
+    const w = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(path.join(repo, GITCRUMBS_DIR), "**/*")
+    );
+    const fire = (uri: vscode.Uri) => {
+      // SQLite touches its shared-memory file on every read, including
+      // our own `timeline`/`status` calls; ignore it to avoid loops.
+      if (uri.fsPath.endsWith("-shm")) return;
+      this.emitter.fire(repo);
+    };
+    w.onDidCreate(fire);
+    w.onDidChange(fire);
+    w.onDidDelete(fire);
+    return w;
+  }
+
+  dispose() {
+    for (const w of this.watchers.values()) w.dispose();
+    this.watchers.clear();
+    this.emitter.dispose();
+  }
+}
@@ -0,0 +1,119 @@
+import * as vscode from "vscode";
+import type { Store, TaskOutcome } from "../state/store";
+import type { TimelineTreeView } from "../ui/timelineTree";
+
+type RecordMode = "buildAndTest" | "all" | "off";
+
+type Running = {
+  startedAt: number;
+  // Snapshot current in each repository when the task started
+  targets: { repo: string; id: number }[];
+};
+
+function kindOf(task: vscode.Task): TaskOutcome["kind"] {
+  if (task.group?.id === vscode.TaskGroup.Build.id) return "build";
+  if (task.group?.id === vscode.TaskGroup.Test.id) return "test";
+  return "task";
+}
+
+/** ✓/✗ overall: failed if any task's latest run failed, passed if all did. */
+export function outcomeState(
+  outcomes: readonly TaskOutcome[] | undefined
+): "passed" | "failed" | undefined {
+  if (!outcomes?.length) return undefined;
+  return outcomes.every((o) => o.passed) ? "passed" : "failed";
+}
+
+/** "850 ms", "12 s", "3 min 4 s" */
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  const secs = Math.round(ms / 1000);
+  if (secs < 60) return `${secs} s`;
+  const mins = Math.floor(secs / 60);
+  return secs % 60 ? `${mins} min ${secs % 60} s` : `${mins} min`;
+}
+
+/** Tooltip line, e.g. "✅ **build** npm: compile — passed in 12 s". */
+export function describeOutcome(o: TaskOutcome): string {
+  const result = o.passed ? "passed" : `failed (exit ${o.exitCode})`;
+  return `${o.passed ? "✅" : "❌"} **${o.kind}** ${
+    o.task
+  } — ${result} in ${formatDuration(o.durationMs)}`;
+}
+
+/**
+ * Records how build and test tasks went on the snapshot that was current
+ * when each task started, i.e. the code it ran against. Tasks that are
+ * cancelled or never report an exit code are not recorded.
+ *
+ * VS Code does not tell extensions when a Test Explorer run finishes, so
+ * test outcomes are only recorded for tests run as tasks.
+ */
+export class TaskOutcomeRecorder implements vscode.Disposable {
+  private subs: vscode.Disposable[] = [];
+  private running = new Map<vscode.TaskExecution, Running>();
+
+  constructor(
+    private readonly store: Store,
+    private readonly timeline: TimelineTreeView
+  ) {
+    this.subs.push(
+      vscode.tasks.onDidStartTaskProcess((e) => this.onStart(e.execution)),
+      vscode.tasks.onDidEndTaskProcess((e) => void this.onEnd(e))
+    );
+  }
+
+  private shouldRecord(task: vscode.Task): boolean {
+    // Watch tasks run until stopped, so their exit code says nothing
+    if (task.isBackground) return false;
+    const mode = vscode.workspace
+      .getConfiguration("gitcrumbs.outcomes")
+      .get<RecordMode>("record", "buildAndTest");
+    if (mode === "off") return false;
+    return mode === "all" || kindOf(task) !== "task";
+  }
+
+  private onStart(execution: vscode.TaskExecution) {
+    const task = execution.task;
+    if (!this.shouldRecord(task)) return;
+    const repos =
+      typeof task.scope === "object"
+        ? [this.store.repoForUri(task.scope.uri)].filter(
+            (r): r is string => !!r
+          )
+        : this.store.repoPaths();
+    const targets = repos.flatMap((repo) => {
+      const id =
+        this.timeline.cursorFor(repo) ?? this.timeline.rowsFor(repo)[0]?.id;
+      return id === undefined ? [] : [{ repo, id }];
+    });
+    if (targets.length)
+      this.running.set(execution, { startedAt: Date.now(), targets });
+  }
+
+  private async onEnd(e: vscode.TaskProcessEndEvent) {
+    const run = this.running.get(e.execution);
+    if (!run) return;
+    this.running.delete(e.execution);
+    if (e.exitCode === undefined) return;
+
+    const task = e.execution.task;
+    const outcome: TaskOutcome = {
+      task: task.name,
+      kind: kindOf(task),
+      passed: e.exitCode === 0,
+      exitCode: e.exitCode,
+      durationMs: Date.now() - run.startedAt,
+      at: Date.now(),
+    };
+    for (const { repo, id } of run.targets) {
+      await this.store.setOutcome(this.store.repoIdForPath(repo), id, outcome);
+    }
+    this.timeline.redraw();
+  }
+
+  dispose() {
+    for (const d of this.subs.splice(0)) d.dispose();
+    this.running.clear();
+  }
+}
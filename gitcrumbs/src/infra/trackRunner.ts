@@ -1,8 +1,26 @@
 import * as vscode from "vscode";
 import { Cli } from "./cli";
 import { Store } from "../state/store";
+import * as path from "path";
 import type { ChildProcessWithoutNullStreams } from "child_process";
 
+export type TrackerState = "stopped" | "running" | "restarting" | "failed";
+
+/** Give up after this many crashes in a row. */
+const MAX_CONSECUTIVE_FAILURES = 5;
+/** A process that survived this long resets the failure count. */
+const STABLE_AFTER_MS = 60_000;
+const BACKOFF_BASE_MS = 2_000;
+const BACKOFF_MAX_MS = 60_000;
+/** How many stderr lines to keep for failure reports. */
+const ERROR_TAIL = 10;
+const PENDING_GRACE_MS = 30_000;
+
+/**
+ * Supervises one `gitcrumbs track` process. Output goes to the shared
+ * tracker log; unexpected exits are restarted with exponential backoff
+ * until the tracker keeps failing, at which point the user is told why.
+ */
 export class TrackRunner {
   private proc: ChildProcessWithoutNullStreams | null = null;
   private emitter = new vscode.EventEmitter<boolean>();
@@ -12,53 +30,306 @@ export class TrackRunner {
   private snapshotEmitter = new vscode.EventEmitter<void>();
   readonly onSnapshotCreated = this.snapshotEmitter.event;
 
-  public isRunning = false;
+  // Fired for dashboard-only changes (pending edits, counters)
+  private activityEmitter = new vscode.EventEmitter<void>();
+  readonly onActivity = this.activityEmitter.event;
 
-  constructor(private readonly cli: Cli, private readonly store: Store) {}
+  public state: TrackerState = "stopped";
+  /** When the current process was spawned (ms since epoch). */
+  public startedAt = 0;
+  public lastSnapshotAt: number | null = null;
+  /** Snapshots created since the user last started tracking. */
+  public sessionSnapshots = 0;
+  /** Time of the first file change not yet captured by a snapshot. */
+  public pendingSince: number | null = null;
+  private lastChangeAt: number | null = null;
+  private watcher: vscode.FileSystemWatcher | null = null;
+  private failures = 0;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private stderrTail: string[] = [];
+
+  constructor(
+    private readonly cli: Cli,
+    private readonly store: Store,
+    readonly repo: string,
+    private readonly log: vscode.OutputChannel
+  ) {}
+
+  /** True while the tracker is supposed to be running (incl. restarts). */
+  get isRunning(): boolean {
+    return this.state === "running" || this.state === "restarting";
+  }
+
+  get pid(): number | undefined {
+    return this.proc?.pid;
+  }
+
+  /**
+   * When the tracker's quiet period (`snapshotAfter`) ends for the pending
+   * changes, or null if nothing is pending. The CLI restarts its timer on
+   * every change, so this is measured from the most recent one.
+   */
+  nextSnapshotAt(): number | null {
+    if (this.state !== "running" || this.lastChangeAt === null) return null;
+    const due = this.lastChangeAt + this.store.config().snapshotAfter * 1000;
+    // Changes the CLI ignores (e.g. gitignored files) never produce a
+    // snapshot, so stop counting once the deadline is well past.
+    return Date.now() > due + PENDING_GRACE_MS ? null : due;
+  }
 
   start() {
-    if (this.proc) return;
-    const repo = this.store.repoPath();
-    if (!repo) {
-      vscode.window.showInformationMessage("Open a repository first.");
-      return;
+    if (this.isRunning) return;
+    this.failures = 0;
+    this.sessionSnapshots = 0;
+    this.watchChanges();
+    this.spawn();
+  }
+
+  stop() {
+    this.clearRestart();
+    this.watcher?.dispose();
+    this.watcher = null;
+    this.pendingSince = this.lastChangeAt = null;
+    const proc = this.proc;
+    this.proc = null;
+    if (proc) {
+      this.write(`stopped (pid ${proc.pid})`);
+      proc.kill();
     }
+    if (this.state === "stopped") return;
+    this.setState("stopped");
+  }
+
+  private spawn() {
+    this.clearRestart();
+    const repo = this.repo;
 
     // Tracking mechanism: the CLI watches the filesystem for changes.
     const { snapshotAfter } = this.store.config();
     const args = ["track", "--snapshot-after", String(snapshotAfter)];
 
-    this.proc = this.cli.runBackground(args, repo);
-    this.isRunning = true;
-    this.emitter.fire(true);
-
-    // TODO: investigate why this isn't working.
-    this.proc.stdout?.on("data", (d) => {
-      const s = d.toString().trim();
-      if (s) console.log(`[gitcrumbs track] ${s}`);
-      if (s.includes("Snapshot created:")) {
-        // Keep store revision in sync and notify listeners so the timeline refreshes
-        this.store.bumpRevision();
-        this.snapshotEmitter.fire();
-      }
+    const proc = this.cli.runBackground(args, repo);
+    this.proc = proc;
+    this.startedAt = Date.now();
+    this.stderrTail = [];
+    this.write(`started: gitcrumbs ${args.join(" ")} (pid ${proc.pid})`);
+    this.setState("running");
+
+    // The CLI writes line by line, but chunks can split or join lines.
+    let outBuf = "";
+    proc.stdout.on("data", (d) => {
+      const lines = (outBuf + d.toString()).split(/\r?\n/);
+      outBuf = lines.pop() ?? "";
+      for (const line of lines) this.onStdoutLine(line);
     });
 
-    this.proc.stderr?.on("data", (d) =>
-      console.warn(`[gitcrumbs track][stderr] ${d.toString().trim()}`)
-    );
+    let errBuf = "";
+    proc.stderr.on("data", (d) => {
+      const lines = (errBuf + d.toString()).split(/\r?\n/);
+      errBuf = lines.pop() ?? "";
+      for (const line of lines) this.onStderrLine(line);
+    });
 
-    this.proc.on("close", () => {
-      this.proc = null;
-      this.isRunning = false;
-      this.emitter.fire(false);
+    let exited = false;
+    const onExit = (code: number | null, signal: string | null) => {
+      if (exited) return;
+      exited = true;
+      if (outBuf) this.onStdoutLine(outBuf);
+      if (errBuf) this.onStderrLine(errBuf);
+      this.onExit(proc, code, signal);
+    };
+    proc.on("close", onExit);
+    proc.on("error", (err) => {
+      this.onStderrLine(err.message);
+      onExit(null, null);
     });
   }
 
-  stop() {
-    if (!this.proc) return;
-    this.proc.kill();
+  private onStdoutLine(line: string) {
+    const s = line.trim();
+    if (!s) return;
+    this.write(s);
+    if (s.includes("Snapshot created:")) {
+      // Keep store revision in sync and notify listeners so the timeline refreshes
+      this.store.bumpRevision();
+      this.lastSnapshotAt = Date.now();
+      this.sessionSnapshots++;
+      this.pendingSince = this.lastChangeAt = null;
+      this.snapshotEmitter.fire();
+      this.activityEmitter.fire();
+    }
+  }
+
+  private onStderrLine(line: string) {
+    const s = line.trim();
+    if (!s) return;
+    this.write(`[stderr] ${s}`);
+    this.stderrTail.push(s);
+    if (this.stderrTail.length > ERROR_TAIL) this.stderrTail.shift();
+  }
+
+  private onExit(
+    proc: ChildProcessWithoutNullStreams,
+    code: number | null,
+    signal: string | null
+  ) {
+    // stop() already detached this process: a deliberate stop, not a crash.
+    if (this.proc !== proc) return;
     this.proc = null;
-    this.isRunning = false;
-    this.emitter.fire(false);
+
+    const how = signal ? `signal ${signal}` : `code ${code ?? "?"}`;
+    this.write(`exited unexpectedly (${how})`);
+
+    if (Date.now() - this.startedAt >= STABLE_AFTER_MS) this.failures = 0;
+    this.failures++;
+
+    if (this.failures >= MAX_CONSECUTIVE_FAILURES) {
+      this.write(`giving up after ${this.failures} failures in a row`);
+      this.setState("failed");
+      void this.reportFailure(how);
+      return;
+    }
+
+    const delay = Math.min(
+      BACKOFF_BASE_MS * 2 ** (this.failures - 1),
+      BACKOFF_MAX_MS
+    );
+    this.write(`restarting in ${Math.round(delay / 1000)}s`);
+    this.setState("restarting");
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (this.state === "restarting") this.spawn();
+    }, delay);
+  }
+
+  private async reportFailure(how: string) {
+    const last = this.stderrTail[this.stderrTail.length - 1];
+    const choice = await vscode.window.showErrorMessage(
+      `Gitcrumbs: The tracker for ${path.basename(this.repo)} exited ` +
+        `${this.failures} times in a row (${how}) and was stopped.` +
+        (last ? ` Last error: ${last}` : ""),
+      "Retry",
+      "Show Details",
+      "Show Log"
+    );
+    if (choice === "Retry") this.start();
+    else if (choice === "Show Log") this.log.show(true);
+    else if (choice === "Show Details")
+      await vscode.window.showInformationMessage(
+        `Tracker for ${this.repo} stopped after ${this.failures} failures (${how}).`,
+        {
+          modal: true,
+          detail: this.stderrTail.length
+            ? `Last error output:\n${this.stderrTail.join("\n")}`
+            : "The tracker produced no error output.",
+        }
+      );
+  }
+
+  /** Watch the working tree so the dashboard can count down to a snapshot. */
+  private watchChanges() {
+    this.watcher?.dispose();
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(this.repo, "**/*")
+    );
+    const onChange = (uri: vscode.Uri) => {
+      const rel = path.relative(this.repo, uri.fsPath);
+      if (rel.split(path.sep)[0] === ".git") return;
+      const now = Date.now();
+      this.pendingSince ??= now;
+      this.lastChangeAt = now;
+      this.activityEmitter.fire();
+    };
+    this.watcher.onDidCreate(onChange);
+    this.watcher.onDidChange(onChange);
+    this.watcher.onDidDelete(onChange);
+  }
+
+  private clearRestart() {
+    if (!this.restartTimer) return;
+    clearTimeout(this.restartTimer);
+    this.restartTimer = null;
+  }
+
+  private setState(state: TrackerState) {
+    this.state = state;
+    this.emitter.fire(this.isRunning);
+  }
+
+  private write(msg: string) {
+    const time = new Date().toLocaleTimeString();
+    this.log.appendLine(`[${time}] [${path.basename(this.repo)}] ${msg}`);
+  }
+}
+
+/**
+ * One TrackRunner per repository. Runners are created on demand and
+ * dropped (and stopped) when their repository leaves the workspace.
+ */
+export class TrackerSet implements vscode.Disposable {
+  private runners = new Map<string, TrackRunner>();
+  // Event forwarding per runner, disposed when the runner is forgotten
+  private subs = new Map<string, vscode.Disposable[]>();
+
+  private stateEmitter = new vscode.EventEmitter<TrackRunner>();
+  readonly onStateChanged = this.stateEmitter.event;
+
+  private activityEmitter = new vscode.EventEmitter<TrackRunner>();
+  readonly onActivity = this.activityEmitter.event;
+
+  private snapshotEmitter = new vscode.EventEmitter<string>();
+  readonly onSnapshotCreated = this.snapshotEmitter.event;
+
+  /** Shared log for every tracker process, prefixed by repository. */
+  readonly log = vscode.window.createOutputChannel("Gitcrumbs Tracker");
+
+  constructor(private readonly cli: Cli, private readonly store: Store) {}
+
+  get(repo: string): TrackRunner {
+    let runner = this.runners.get(repo);
+    if (!runner) {
+      const r = new TrackRunner(this.cli, this.store, repo, this.log);
+      this.subs.set(repo, [
+        r.onStateChanged(() => this.stateEmitter.fire(r)),
+        r.onActivity(() => this.activityEmitter.fire(r)),
+        r.onSnapshotCreated(() => this.snapshotEmitter.fire(repo)),
+      ]);
+      this.runners.set(repo, r);
+      runner = r;
+    }
+    return runner;
+  }
+
+  all(): TrackRunner[] {
+    return [...this.runners.values()];
+  }
+
+  running(): TrackRunner[] {
+    return this.all().filter((r) => r.isRunning);
+  }
+
+  /**
+   * Stop and forget runners whose repository is no longer in `repos`.
+   * This is an automatic stop, so tracking preferences are left alone.
+   */
+  sync(repos: string[]) {
+    for (const [repo, runner] of this.runners) {
+      if (repos.includes(repo)) continue;
+      runner.stop();
+      this.runners.delete(repo);
+      for (const d of this.subs.get(repo) ?? []) d.dispose();
+      this.subs.delete(repo);
+    }
+  }
+
+  stopAll() {
+    for (const r of this.runners.values()) r.stop();
+  }
+
+  dispose() {
+    this.stopAll();
+    for (const subs of this.subs.values()) for (const d of subs) d.dispose();
+    this.subs.clear();
+    this.log.dispose();
   }
 }
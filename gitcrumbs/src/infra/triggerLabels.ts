@@ -0,0 +1,19 @@
+const AUTO_PREFIX = "auto: ";
+
+/**
+ * "auto: save 2025-01-31 14:02:31". The timestamp tells apart snapshots
+ * from the same trigger; two in the same second would share a label.
+ */
+export function triggerLabel(what: string): string {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const stamp = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(
+    d.getDate()
+  )} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+  return `${AUTO_PREFIX}${what} ${stamp}`;
+}
+
+/** Labels given by triggerLabel(), as opposed to ones the user chose. */
+export function isAutoLabel(label: string): boolean {
+  return label.startsWith(AUTO_PREFIX);
+}
@@ -0,0 +1,108 @@
+import type { SnapshotRow } from "../util/types";
+import { isAutoLabel } from "../infra/triggerLabels";
+
+/**
+ * Which snapshots to keep when pruning. Windows are measured back from
+ * now and nest: everything in the newest window, then the newest
+ * snapshot per hour, then the newest per day. Anything older goes.
+ */
+export type RetentionRules = {
+  keepAllHours: number;
+  hourlyDays: number;
+  dailyDays: number;
+  keepLabelled: boolean;
+};
+
+export type KeepReason =
+  | "recent"
+  | "hourly"
+  | "daily"
+  | "labelled"
+  | "protected";
+
+export type RetentionPlan = {
+  keep: Map<number, KeepReason>;
+  remove: SnapshotRow[]; // newest first, like the timeline
+};
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+/**
+ * A label the user actually chose: not the id the CLI may echo as label,
+ * nor one given by an automatic snapshot trigger.
+ */
+export function hasLabel(s: SnapshotRow): boolean {
+  return !!s.label && s.label !== String(s.id) && !isAutoLabel(s.label);
+}
+
+/** `created_at` is local "YYYY-MM-DD HH:MM:SS"; NaN if unparseable. */
+function createdMs(s: SnapshotRow): number {
+  return new Date(s.created_at.replace(" ", "T")).getTime();
+}
+
+/**
+ * Decide what pruning would delete. `protectedIds` (cursor, baseline,
+ * pinned, …) are always kept, as is the newest snapshot. Snapshots with
+ * an unreadable timestamp are kept rather than guessed at. An hour or day
+ * that already keeps a snapshot for any reason keeps no hourly/daily one
+ * besides it.
+ */
+export function planRetention(
+  rows: readonly SnapshotRow[],
+  rules: RetentionRules,
+  protectedIds: ReadonlySet<number>,
+  now = Date.now()
+): RetentionPlan {
+  const keep = new Map<number, KeepReason>();
+  const remove: SnapshotRow[] = [];
+  const seenBuckets = new Set<string>();
+  const newestFirst = [...rows].sort((a, b) => b.id - a.id);
+
+  for (const [i, s] of newestFirst.entries()) {
+    const age = now - createdMs(s);
+    // Newest first, so the first one seen in a bucket is the one kept
+    const hour = `h:${s.created_at.slice(0, 13)}`;
+    const day = `d:${s.created_at.slice(0, 10)}`;
+    if (i === 0 || protectedIds.has(s.id) || Number.isNaN(age)) {
+      keep.set(s.id, "protected");
+    } else if (rules.keepLabelled && hasLabel(s)) {
+      keep.set(s.id, "labelled");
+    } else if (age <= rules.keepAllHours * HOUR) {
+      keep.set(s.id, "recent");
+    } else if (age <= rules.hourlyDays * DAY) {
+      if (seenBuckets.has(hour)) remove.push(s);
+      else keep.set(s.id, "hourly");
+    } else if (age <= rules.dailyDays * DAY) {
+      if (seenBuckets.has(day)) remove.push(s);
+      else keep.set(s.id, "daily");
+    } else {
+      remove.push(s);
+    }
+    if (keep.has(s.id) && !Number.isNaN(age)) {
+      seenBuckets.add(hour);
+      seenBuckets.add(day);
+    }
+  }
+  return { keep, remove };
+}
+
+/** "Keeps 40 recent, 20 hourly, 3 labelled" style summary of a plan. */
+export function describePlan(plan: RetentionPlan): string {
+  const counts = new Map<KeepReason, number>();
+  for (const reason of plan.keep.values())
+    counts.set(reason, (counts.get(reason) ?? 0) + 1);
+  const order: KeepReason[] = [
+    "recent",
+    "hourly",
+    "daily",
+    "labelled",
+    "protected",
+  ];
+  const parts = order
+    .filter((r) => counts.get(r))
+    .map((r) => `${counts.get(r)} ${r}`);
+  return `Keeps ${plan.keep.size} (${parts.join(", ")}); deletes ${
+    plan.remove.length
+  }.`;
+}
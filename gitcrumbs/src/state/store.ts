@@ -1,7 +1,27 @@
 import * as vscode from "vscode";
+import * as path from "path";
+import type { TimelineGrouping } from "../ui/timelineGroups";
+import type { DiffSort } from "../ui/diffStats";
 
 type TrackingPreference = "auto" | "never";
 
+/** How a build or test task went while a snapshot was current. */
+export type TaskOutcome = {
+  task: string;
+  kind: "build" | "test" | "task";
+  passed: boolean;
+  exitCode: number;
+  durationMs: number;
+  at: number; // when it finished
+};
+
+/** One restore/next/previous, and the snapshot that undoes it. */
+export type NavMove = {
+  action: "restore" | "next" | "previous";
+  undoTo: number; // safety snapshot of the working tree before the move
+  at: number;
+};
+
 export class Store {
   private revision = 0;
 
@@ -18,11 +38,42 @@ export class Store {
     this.revision++;
   }
 
-  repoPath(): string | undefined {
+  // Repo that commands without an explicit target act on
+  private activeRepo: string | undefined;
+
+  /**
+   * All repositories Gitcrumbs works with: the configured `repoPath` if
+   * set, otherwise every workspace folder (multi-root workspaces).
+   */
+  repoPaths(): string[] {
     const cfg = vscode.workspace.getConfiguration("gitcrumbs");
     const configured = cfg.get<string>("repoPath", "").trim();
-    if (configured) return configured;
-    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (configured) return [configured];
+    return (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath);
+  }
+
+  /** The active repository (first one unless another was picked). */
+  repoPath(): string | undefined {
+    const all = this.repoPaths();
+    if (this.activeRepo && all.includes(this.activeRepo))
+      return this.activeRepo;
+    return all[0];
+  }
+
+  setActiveRepo(repoPath: string | undefined) {
+    this.activeRepo = repoPath;
+  }
+
+  /** Repository containing `uri`, preferring the innermost one. */
+  repoForUri(uri: vscode.Uri): string | undefined {
+    if (uri.scheme !== "file") return undefined;
+    const file = path.resolve(uri.fsPath);
+    return this.repoPaths()
+      .filter((r) => {
+        const rel = path.relative(path.resolve(r), file);
+        return !rel.startsWith("..") && !path.isAbsolute(rel);
+      })
+      .sort((a, b) => b.length - a.length)[0];
   }
 
   /**
@@ -99,4 +150,220 @@ export class Store {
     delete prefs[repoId];
     await this.writeTrackingPrefs(prefs);
   }
+
+  // ---------- Quick-diff baseline snapshot (per repo) ----------
+
+  private baselinesKey = "gitcrumbs.baselineSnapshots";
+
+  getBaseline(repoId: string): number | undefined {
+    const all = this.context.workspaceState.get<Record<string, number>>(
+      this.baselinesKey,
+      {}
+    );
+    return all?.[repoId];
+  }
+
+  async setBaseline(repoId: string, id: number | undefined): Promise<void> {
+    const all = {
+      ...(this.context.workspaceState.get<Record<string, number>>(
+        this.baselinesKey,
+        {}
+      ) ?? {}),
+    };
+    if (id === undefined) delete all[repoId];
+    else all[repoId] = id;
+    await this.context.workspaceState.update(this.baselinesKey, all);
+  }
+
+  // ---------- Timeline grouping (per workspace) ----------
+
+  private groupingKey = "gitcrumbs.timelineGrouping";
+
+  getTimelineGrouping(): TimelineGrouping {
+    return this.context.workspaceState.get<TimelineGrouping>(
+      this.groupingKey,
+      "none"
+    );
+  }
+
+  async setTimelineGrouping(mode: TimelineGrouping): Promise<void> {
+    await this.context.workspaceState.update(this.groupingKey, mode);
+  }
+
+  // ---------- Diff view file order (per workspace) ----------
+
+  private diffSortKey = "gitcrumbs.diffSort";
+
+  getDiffSort(): DiffSort {
+    return this.context.workspaceState.get<DiffSort>(this.diffSortKey, "kind");
+  }
+
+  async setDiffSort(mode: DiffSort): Promise<void> {
+    await this.context.workspaceState.update(this.diffSortKey, mode);
+  }
+
+  // ---------- Pinned snapshots & notes (per repo) ----------
+
+  private pinnedKey = "gitcrumbs.pinnedSnapshots";
+  private notesKey = "gitcrumbs.snapshotNotes";
+
+  getPinned(repoId: string): number[] {
+    const all = this.context.workspaceState.get<Record<string, number[]>>(
+      this.pinnedKey,
+      {}
+    );
+    return all?.[repoId] ?? [];
+  }
+
+  async setPinned(repoId: string, id: number, pinned: boolean): Promise<void> {
+    const all = {
+      ...(this.context.workspaceState.get<Record<string, number[]>>(
+        this.pinnedKey,
+        {}
+      ) ?? {}),
+    };
+    const ids = (all[repoId] ?? []).filter((x) => x !== id);
+    all[repoId] = pinned ? [id, ...ids] : ids;
+    await this.context.workspaceState.update(this.pinnedKey, all);
+  }
+
+  getNotes(repoId: string): Record<number, string> {
+    const all = this.context.workspaceState.get<
+      Record<string, Record<number, string>>
+    >(this.notesKey, {});
+    return all?.[repoId] ?? {};
+  }
+
+  getNote(repoId: string, id: number): string | undefined {
+    return this.getNotes(repoId)[id];
+  }
+
+  /** Save a markdown note; an empty note removes it. */
+  async setNote(repoId: string, id: number, note: string): Promise<void> {
+    const all = {
+      ...(this.context.workspaceState.get<
+        Record<string, Record<number, string>>
+      >(this.notesKey, {}) ?? {}),
+    };
+    const notes = { ...(all[repoId] ?? {}) };
+    if (note.trim()) notes[id] = note;
+    else delete notes[id];
+    all[repoId] = notes;
+    await this.context.workspaceState.update(this.notesKey, all);
+  }
+
+  // ---------- Build/test outcomes (per repo) ----------
+
+  private outcomesKey = "gitcrumbs.taskOutcomes";
+
+  /** Latest outcome of each task, by snapshot id. */
+  getOutcomes(repoId: string): Record<number, TaskOutcome[]> {
+    const all = this.context.workspaceState.get<
+      Record<string, Record<number, TaskOutcome[]>>
+    >(this.outcomesKey, {});
+    return all?.[repoId] ?? {};
+  }
+
+  /** Record an outcome, replacing the task's earlier one; null clears all. */
+  async setOutcome(
+    repoId: string,
+    id: number,
+    outcome: TaskOutcome | null
+  ): Promise<void> {
+    const all = {
+      ...(this.context.workspaceState.get<
+        Record<string, Record<number, TaskOutcome[]>>
+      >(this.outcomesKey, {}) ?? {}),
+    };
+    const outcomes = { ...(all[repoId] ?? {}) };
+    if (outcome) {
+      outcomes[id] = (outcomes[id] ?? [])
+        .filter((o) => o.task !== outcome.task)
+        .concat(outcome);
+    } else delete outcomes[id];
+    all[repoId] = outcomes;
+    await this.context.workspaceState.update(this.outcomesKey, all);
+  }
+
+  /**
+   * Drop pins, notes, outcomes and the baseline kept for snapshots that no
+   * longer exist, e.g. deleted outside the extension, so a snapshot that
+   * later gets the same id doesn't inherit them.
+   */
+  async forgetMissingSnapshots(
+    repoId: string,
+    existing: ReadonlySet<number>
+  ): Promise<void> {
+    const pinned = this.getPinned(repoId);
+    const keptPins = pinned.filter((id) => existing.has(id));
+    if (keptPins.length !== pinned.length) {
+      const all = {
+        ...(this.context.workspaceState.get<Record<string, number[]>>(
+          this.pinnedKey,
+          {}
+        ) ?? {}),
+        [repoId]: keptPins,
+      };
+      await this.context.workspaceState.update(this.pinnedKey, all);
+    }
+
+    const notes = this.getNotes(repoId);
+    for (const id of Object.keys(notes).map(Number)) {
+      if (!existing.has(id)) await this.setNote(repoId, id, "");
+    }
+    const outcomes = this.getOutcomes(repoId);
+    for (const id of Object.keys(outcomes).map(Number)) {
+      if (!existing.has(id)) await this.setOutcome(repoId, id, null);
+    }
+
+    const baseline = this.getBaseline(repoId);
+    if (baseline !== undefined && !existing.has(baseline))
+      await this.setBaseline(repoId, undefined);
+  }
+
+  // ---------- Undo stack for restore/next/previous (per repo) ----------
+
+  private navStackKey = "gitcrumbs.navigationStack";
+
+  getNavStack(repoId: string): NavMove[] {
+    const all = this.context.workspaceState.get<Record<string, NavMove[]>>(
+      this.navStackKey,
+      {}
+    );
+    return all?.[repoId] ?? [];
+  }
+
+  async setNavStack(repoId: string, stack: NavMove[]): Promise<void> {
+    const all = {
+      ...(this.context.workspaceState.get<Record<string, NavMove[]>>(
+        this.navStackKey,
+        {}
+      ) ?? {}),
+      [repoId]: stack,
+    };
+    await this.context.workspaceState.update(this.navStackKey, all);
+  }
+
+  // ---------- Last scheduled prune (per repo) ----------
+
+  private lastPruneKey = "gitcrumbs.lastPrune";
+
+  getLastPrune(repoId: string): number {
+    const all = this.context.workspaceState.get<Record<string, number>>(
+      this.lastPruneKey,
+      {}
+    );
+    return all?.[repoId] ?? 0;
+  }
+
+  async setLastPrune(repoId: string, at: number): Promise<void> {
+    const all = {
+      ...(this.context.workspaceState.get<Record<string, number>>(
+        this.lastPruneKey,
+        {}
+      ) ?? {}),
+      [repoId]: at,
+    };
+    await this.context.workspaceState.update(this.lastPruneKey, all);
+  }
 }
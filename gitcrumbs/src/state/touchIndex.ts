@@ -0,0 +1,59 @@
+import type { GitcrumbsClient } from "../infra/client";
+import type { Change, SnapshotRow } from "../util/types";
+
+export type FileTouch = {
+  snapshot: SnapshotRow;
+  previous: SnapshotRow;
+  change: Change;
+};
+
+/**
+ * Which files each snapshot touched, derived from `diff <prev> <id>` of
+ * consecutive snapshots (by ID).
+ *
+ * Snapshots are immutable, so pair results are cached for the lifetime of
+ * the extension and only new pairs cost a CLI call. The very first snapshot
+ * has nothing to compare against and is never reported.
+ */
+export class TouchIndex {
+  private cache = new Map<string, Change[]>();
+
+  constructor(private readonly client: GitcrumbsClient) {}
+
+  async changesBetween(
+    repo: string,
+    a: number,
+    b: number
+  ): Promise<Change[] | null> {
+    const key = `${repo}\0${a}:${b}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+    const { data } = await this.client.diff(repo, a, b);
+    if (data) this.cache.set(key, data);
+    return data;
+  }
+
+  /**
+   * Snapshots (newest first) in which `relPath` changed compared to the
+   * snapshot before it. `isCancelled` is polled between CLI calls so a
+   * stale scan can stop early.
+   */
+  async touching(
+    repo: string,
+    rows: readonly SnapshotRow[],
+    relPath: string,
+    isCancelled?: () => boolean
+  ): Promise<FileTouch[]> {
+    const byId = [...rows].sort((x, y) => x.id - y.id);
+    const out: FileTouch[] = [];
+    for (let i = byId.length - 1; i > 0; i--) {
+      if (isCancelled?.()) break;
+      const previous = byId[i - 1];
+      const snapshot = byId[i];
+      const changes = await this.changesBetween(repo, previous.id, snapshot.id);
+      const change = changes?.find((c) => c.path === relPath);
+      if (change) out.push({ snapshot, previous, change });
+    }
+    return out;
+  }
+}
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import type { Cli, CliResult } from "../infra/cli";
+import { GitcrumbsClient } from "../infra/client";
+import { WORKING_TREE } from "../util/types";
+import { fixture } from "./fixtures";
+
+/** Fake CLI that answers from fixtures and records what it was asked. */
+function fakeCli(json: boolean): { cli: Cli; calls: string[] } {
+  const calls: string[] = [];
+  const run = async (args: string[]): Promise<CliResult> => {
+    calls.push(args.join(" "));
+    const wantsJson = args.includes("--json");
+    if (wantsJson && !json)
+      return { code: 2, stdout: "", stderr: "Error: No such option: --json" };
+    return {
+      code: 0,
+      stdout: fixture(`${args[0]}.${wantsJson ? "json" : "txt"}`),
+      stderr: "",
+    };
+  };
+  return { cli: { run } as unknown as Cli, calls };
+}
+
+for (const json of [true, false]) {
+  const format = json ? "JSON" : "table";
+
+  test(`client reads the ${format} output`, async () => {
+    const { cli } = fakeCli(json);
+    const client = new GitcrumbsClient(cli);
+    const timeline = await client.timeline("/repo");
+    assert.deepEqual(
+      timeline.data?.map((r) => r.id),
+      [1, 2, 3, 4]
+    );
+    assert.deepEqual((await client.status("/repo")).data, { cursorId: 3 });
+    assert.deepEqual((await client.diff("/repo", 2, 4)).data, [
+      { path: "src/new file.ts", kind: "A" },
+      { path: "README.md", kind: "M" },
+      { path: "src/app.ts", kind: "M" },
+    ]);
+  });
+}
+
+test("client stops asking for --json once the CLI rejects it", async () => {
+  const { cli, calls } = fakeCli(false);
+  const client = new GitcrumbsClient(cli);
+  await client.timeline("/repo");
+  await client.status("/repo");
+  assert.deepEqual(calls, ["timeline --json", "timeline", "status"]);
+});
+
+test("diff with the working tree on the left flips added and deleted", async () => {
+  const { cli, calls } = fakeCli(true);
+  const client = new GitcrumbsClient(cli);
+  const res = await client.diff("/repo", WORKING_TREE, 2);
+  assert.deepEqual(calls, ["diff 2 --all --json"]);
+  assert.deepEqual(res.data, [
+    { path: "src/new file.ts", kind: "D" },
+    { path: "README.md", kind: "M" },
+    { path: "src/app.ts", kind: "M" },
+  ]);
+});
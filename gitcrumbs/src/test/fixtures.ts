@@ -0,0 +1,9 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Tests run from dist/test; the fixtures stay in the source tree
+const FIXTURES = path.join(__dirname, "..", "..", "src", "test", "fixtures");
+
+export function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES, name), "utf8");
+}
@@ -0,0 +1,137 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { diffLines, lineStats, splitLines } from "../util/lineDiff";
+import {
+  countChange,
+  countOf,
+  formatCount,
+  sortChanges,
+  totalOf,
+  type LineCount,
+} from "../util/lineCounts";
+import type { Change } from "../util/types";
+
+const added = (path: string): Change => ({ path, kind: "A" });
+const modified = (path: string): Change => ({ path, kind: "M" });
+const deleted = (path: string): Change => ({ path, kind: "D" });
+
+test("diffLines finds one hunk per changed region", () => {
+  const a = splitLines("one\ntwo\nthree\nfour\nfive");
+  const b = splitLines("one\nTWO\nthree\nfour\nfive\nsix");
+  assert.deepEqual(diffLines(a, b), [
+    { aStart: 1, aLines: ["two"], bStart: 1, bLines: ["TWO"] },
+    { aStart: 5, aLines: [], bStart: 5, bLines: ["six"] },
+  ]);
+  assert.deepEqual(diffLines(a, a), []);
+});
+
+test("lineStats counts added and removed lines", () => {
+  assert.deepEqual(lineStats("a\nb\nc\n", "a\nb\nc\n"), {
+    added: 0,
+    removed: 0,
+  });
+  assert.deepEqual(lineStats("a\nb\nc\n", "a\nB\nc\nd\n"), {
+    added: 2,
+    removed: 1,
+  });
+  assert.deepEqual(lineStats("a\nb\nc\n", "a\n"), { added: 0, removed: 2 });
+  // CRLF and LF line endings compare equal
+  assert.deepEqual(lineStats("a\r\nb\r\n", "a\nb\n"), {
+    added: 0,
+    removed: 0,
+  });
+});
+
+test("adding or dropping the final newline counts as one line", () => {
+  assert.deepEqual(lineStats("a\nb", "a\nb\n"), { added: 1, removed: 0 });
+  assert.deepEqual(lineStats("a\nb\n", "a\nb"), { added: 0, removed: 1 });
+});
+
+test("countOf ignores the empty string after a final newline", () => {
+  assert.equal(countOf(""), 0);
+  assert.equal(countOf("\n"), 1);
+  assert.equal(countOf("one"), 1);
+  assert.equal(countOf("one\n"), 1);
+  assert.equal(countOf("one\ntwo"), 2);
+  assert.equal(countOf("one\r\ntwo\r\n"), 2);
+});
+
+test("countChange counts whole files for adds and deletes", () => {
+  assert.deepEqual(countChange(added("new.ts"), "", "a\nb\nc\n"), {
+    added: 3,
+    removed: 0,
+  });
+  assert.deepEqual(countChange(deleted("old.ts"), "a\nb\n", ""), {
+    added: 0,
+    removed: 2,
+  });
+  assert.deepEqual(countChange(added("empty.ts"), "", ""), {
+    added: 0,
+    removed: 0,
+  });
+  assert.deepEqual(countChange(modified("app.ts"), "a\nb\n", "a\nc\n"), {
+    added: 1,
+    removed: 1,
+  });
+});
+
+test("countChange reports binary files instead of lines", () => {
+  const png = "\x89PNG\r\n\x1a\n\0\0\0\rIHDR";
+  assert.equal(countChange(added("logo.png"), "", png), "binary");
+  assert.equal(countChange(deleted("logo.png"), png, ""), "binary");
+  assert.equal(countChange(modified("data.bin"), "text\n", png), "binary");
+  // Invalid UTF-8 decodes to replacement characters, not NUL: still text
+  const undecodable = Buffer.from([0x61, 0xff, 0xfe, 0x0a]).toString("utf8");
+  assert.deepEqual(countChange(added("latin1.txt"), "", undecodable), {
+    added: 1,
+    removed: 0,
+  });
+});
+
+test("totalOf and formatCount skip binaries and uncounted files", () => {
+  const counts: (LineCount | undefined)[] = [
+    { added: 3, removed: 1 },
+    "binary",
+    undefined,
+    { added: 0, removed: 4 },
+  ];
+  assert.deepEqual(totalOf(counts), { added: 3, removed: 5 });
+  assert.deepEqual(totalOf([]), { added: 0, removed: 0 });
+  assert.equal(formatCount({ added: 12, removed: 3 }), "+12 −3");
+  assert.equal(formatCount("binary"), "binary");
+  assert.equal(formatCount(undefined), "");
+});
+
+test("sortChanges orders by path, or by churn with ties by path", () => {
+  const changes = [
+    modified("src/b.ts"),
+    added("README.md"),
+    modified("src/a.ts"),
+    added("logo.png"),
+    deleted("old.ts"),
+  ];
+  const counts = new Map<string, LineCount>([
+    ["src/b.ts", { added: 1, removed: 1 }],
+    ["README.md", { added: 10, removed: 0 }],
+    ["src/a.ts", { added: 2, removed: 0 }],
+    ["logo.png", "binary"],
+  ]);
+  const paths = (c: Change[]) => c.map((x) => x.path);
+
+  assert.deepEqual(paths(sortChanges(changes, "path", counts)), [
+    "logo.png",
+    "old.ts",
+    "README.md",
+    "src/a.ts",
+    "src/b.ts",
+  ]);
+  assert.deepEqual(paths(sortChanges(changes, "churn", counts)), [
+    "README.md",
+    "src/a.ts",
+    "src/b.ts",
+    "logo.png",
+    "old.ts",
+  ]);
+  // The input is left alone
+  assert.equal(changes[0].path, "src/b.ts");
+});
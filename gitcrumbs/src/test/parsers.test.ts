@@ -0,0 +1,117 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  parseDiffJson,
+  parseDiffTable,
+  parseStatusJson,
+  parseStatusText,
+  parseTimelineJson,
+  parseTimelineTable,
+  stripAnsi,
+} from "../infra/parsers";
+import { fixture } from "./fixtures";
+
+const timelineRows = [
+  {
+    id: 1,
+    label: null,
+    created_at: "2025-01-31 09:12:03",
+    branch: "main",
+    summary: "+2 ~0 -0",
+    restored_from_snapshot_id: null,
+  },
+  {
+    id: 2,
+    label: "wip",
+    created_at: "2025-01-31 09:40:11",
+    branch: "main",
+    summary: "+0 ~1 -0",
+    restored_from_snapshot_id: null,
+  },
+  {
+    id: 3,
+    label: null,
+    created_at: "2025-01-31 10:02:45",
+    branch: "feat/x",
+    summary: "+1 ~2 -1",
+    restored_from_snapshot_id: 1,
+  },
+  {
+    id: 4,
+    label: "parser",
+    created_at: "2025-01-31 11:00:00",
+    branch: "feat/x",
+    summary: "refactor the table parser",
+    restored_from_snapshot_id: null,
+  },
+];
+
+const diffChanges = [
+  { path: "src/new file.ts", kind: "A" },
+  { path: "README.md", kind: "M" },
+  { path: "src/app.ts", kind: "M" },
+];
+
+test("timeline table: rows, empty cells and wrapped summaries", () => {
+  assert.deepEqual(parseTimelineTable(fixture("timeline.txt")), timelineRows);
+});
+
+test("timeline JSON: same rows, plus the HEAD commit", () => {
+  const rows = parseTimelineJson(JSON.parse(fixture("timeline.json")));
+  assert.deepEqual(
+    rows.map(({ head_commit, ...rest }) => rest),
+    timelineRows
+  );
+  assert.equal(rows[2].head_commit, "9a8b7c6d5e4f3a2b1c0d9e8f7a6b5c4d3e2f1a0b");
+});
+
+test("timeline JSON: accepts a { snapshots } wrapper and skips rows without an id", () => {
+  const rows = parseTimelineJson({
+    snapshots: [{ id: "7", created_at: "2025-02-01 08:00:00" }, { label: "x" }],
+  });
+  assert.deepEqual(
+    rows.map((r) => r.id),
+    [7]
+  );
+});
+
+test("status text and JSON agree on the cursor", () => {
+  assert.deepEqual(parseStatusText(fixture("status.txt")), { cursorId: 3 });
+  assert.deepEqual(parseStatusJson(JSON.parse(fixture("status.json"))), {
+    cursorId: 3,
+  });
+});
+
+test("status without a cursor", () => {
+  assert.deepEqual(parseStatusText("Tracking: stopped\n"), { cursorId: null });
+  assert.deepEqual(parseStatusJson({ cursor_snapshot_id: null }), {
+    cursorId: null,
+  });
+});
+
+test("diff table: splits file lists and skips empty groups", () => {
+  assert.deepEqual(parseDiffTable(fixture("diff.txt")), diffChanges);
+});
+
+test("diff JSON: list and grouped shapes", () => {
+  assert.deepEqual(
+    parseDiffJson(JSON.parse(fixture("diff.json"))),
+    diffChanges
+  );
+  assert.deepEqual(
+    parseDiffJson({
+      added: ["src/new file.ts"],
+      modified: ["README.md", "src/app.ts"],
+      deleted: [],
+    }),
+    diffChanges
+  );
+});
+
+test("stripAnsi leaves a coloured table parseable", () => {
+  const coloured = fixture("diff.txt").replace(
+    /(Added|Modified)/g,
+    "\x1B[1;32m$1\x1B[0m"
+  );
+  assert.deepEqual(parseDiffTable(stripAnsi(coloured)), diffChanges);
+});
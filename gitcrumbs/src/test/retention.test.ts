@@ -0,0 +1,205 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  describePlan,
+  hasLabel,
+  planRetention,
+  type RetentionRules,
+} from "../state/retention";
+import type { SnapshotRow } from "../util/types";
+
+// created_at is local time, so `now` is too
+const NOW = new Date(2025, 0, 31, 12, 0, 0).getTime();
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+const rules: RetentionRules = {
+  keepAllHours: 24,
+  hourlyDays: 7,
+  dailyDays: 30,
+  keepLabelled: true,
+};
+
+/** "YYYY-MM-DD HH:MM:SS" for `ms` before NOW, like the CLI prints. */
+function ago(ms: number): string {
+  const d = new Date(NOW - ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(
+    d.getHours()
+  )}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+function row(id: number, createdAt: string, label: string | null = null) {
+  const r: SnapshotRow = {
+    id,
+    label,
+    created_at: createdAt,
+    branch: "main",
+    summary: null,
+    restored_from_snapshot_id: null,
+  };
+  return r;
+}
+
+function plan(
+  rows: SnapshotRow[],
+  protectedIds: number[] = [],
+  overrides: Partial<RetentionRules> = {}
+) {
+  const p = planRetention(
+    rows,
+    { ...rules, ...overrides },
+    new Set(protectedIds),
+    NOW
+  );
+  return {
+    keep: Object.fromEntries(p.keep),
+    remove: p.remove.map((s) => s.id),
+  };
+}
+
+test("everything inside keepAllHours is kept", () => {
+  const rows = [1, 2, 3, 4].map((id) => row(id, ago((5 - id) * HOUR)));
+  assert.deepEqual(plan(rows), {
+    keep: { 4: "protected", 3: "recent", 2: "recent", 1: "recent" },
+    remove: [],
+  });
+});
+
+test("the hourly window keeps the newest snapshot of each hour", () => {
+  const base = 3 * DAY + 30 * 60_000; // half past some hour, 3 days ago
+  const rows = [
+    row(1, ago(base + 20 * 60_000)), // same hour as 2 and 3
+    row(2, ago(base + 10 * 60_000)),
+    row(3, ago(base)),
+    row(4, ago(base - HOUR)), // the next hour
+    row(5, ago(0)),
+  ];
+  assert.deepEqual(plan(rows), {
+    keep: { 5: "protected", 4: "hourly", 3: "hourly" },
+    remove: [2, 1],
+  });
+});
+
+test("the daily window keeps the newest snapshot of each day", () => {
+  const base = 10 * DAY;
+  const rows = [
+    row(1, ago(base + 2 * HOUR)),
+    row(2, ago(base + HOUR)),
+    row(3, ago(base)),
+    row(4, ago(base - DAY)),
+    row(5, ago(0)),
+  ];
+  // 1–3 share a day only if none crosses midnight; pick times that don't
+  const sameDay = new Set(
+    rows.slice(0, 3).map((r) => r.created_at.slice(0, 10))
+  );
+  assert.equal(sameDay.size, 1);
+  assert.deepEqual(plan(rows), {
+    keep: { 5: "protected", 4: "daily", 3: "daily" },
+    remove: [2, 1],
+  });
+});
+
+test("snapshots older than dailyDays go", () => {
+  const rows = [row(1, ago(31 * DAY)), row(2, ago(40 * DAY)), row(3, ago(0))];
+  // Ids and dates disagree on purpose: the newest id is always kept
+  assert.deepEqual(plan(rows), {
+    keep: { 3: "protected" },
+    remove: [2, 1],
+  });
+});
+
+test("window edges are inclusive", () => {
+  const cases: [number, string | undefined][] = [
+    [24 * HOUR, "recent"],
+    [24 * HOUR + 1000, "hourly"],
+    [7 * DAY, "hourly"],
+    [7 * DAY + 1000, "daily"],
+    [30 * DAY, "daily"],
+    [30 * DAY + 1000, undefined],
+  ];
+  for (const [age, reason] of cases) {
+    const p = plan([row(1, ago(age)), row(2, ago(0))]);
+    assert.equal(p.keep[1], reason, `${age} ms old`);
+  }
+});
+
+test("labelled and protected snapshots are kept wherever they are", () => {
+  const rows = [
+    row(1, ago(90 * DAY), "release"),
+    row(2, ago(80 * DAY)),
+    row(3, ago(70 * DAY), "3"), // the id echoed as label isn't a label
+    row(4, ago(60 * DAY), "auto: save 2024-12-02 12:00:00"),
+    row(5, ago(0)),
+  ];
+  assert.deepEqual(plan(rows, [2]), {
+    keep: { 5: "protected", 2: "protected", 1: "labelled" },
+    remove: [4, 3],
+  });
+  // Protected wins over labelled
+  assert.equal(
+    plan([row(1, ago(90 * DAY), "x"), row(2, ago(0))], [1]).keep[1],
+    "protected"
+  );
+});
+
+test("keepLabelled off lets labelled snapshots be pruned", () => {
+  const rows = [row(1, ago(90 * DAY), "release"), row(2, ago(0))];
+  assert.deepEqual(plan(rows, [], { keepLabelled: false }), {
+    keep: { 2: "protected" },
+    remove: [1],
+  });
+});
+
+test("unreadable timestamps are kept, not guessed at", () => {
+  const rows = [row(1, "yesterday-ish"), row(2, ""), row(3, ago(0))];
+  assert.deepEqual(plan(rows), {
+    keep: { 3: "protected", 2: "protected", 1: "protected" },
+    remove: [],
+  });
+});
+
+test("an hour or day already kept for another reason keeps nothing else", () => {
+  const hourBase = 3 * DAY + 30 * 60_000;
+  const dayBase = 10 * DAY;
+  const rows = [
+    row(1, ago(dayBase + HOUR)),
+    row(2, ago(dayBase), "labelled"),
+    row(3, ago(hourBase + 10 * 60_000)),
+    row(4, ago(hourBase)),
+    row(5, ago(0)),
+  ];
+  assert.deepEqual(plan(rows, [4]), {
+    keep: { 5: "protected", 4: "protected", 2: "labelled" },
+    remove: [3, 1],
+  });
+});
+
+test("an empty timeline plans nothing", () => {
+  assert.deepEqual(plan([]), { keep: {}, remove: [] });
+});
+
+test("hasLabel ignores ids and automatic labels", () => {
+  assert.equal(hasLabel(row(7, "", "before refactor")), true);
+  assert.equal(hasLabel(row(7, "", null)), false);
+  assert.equal(hasLabel(row(7, "", "7")), false);
+  assert.equal(
+    hasLabel(row(7, "", "auto: focus lost 2025-01-31 12:00:00")),
+    false
+  );
+});
+
+test("describePlan summarises the reasons in a fixed order", () => {
+  const rows = [
+    row(1, ago(40 * DAY)),
+    row(2, ago(10 * DAY)),
+    row(3, ago(2 * HOUR)),
+    row(4, ago(0)),
+  ];
+  const p = planRetention(rows, rules, new Set(), NOW);
+  assert.equal(
+    describePlan(p),
+    "Keeps 3 (1 recent, 1 daily, 1 protected); deletes 1."
+  );
+});
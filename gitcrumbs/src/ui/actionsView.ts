@@ -19,15 +19,21 @@ export class ActionsView implements vscode.TreeDataProvider<vscode.TreeItem> {
   getChildren(): vscode.ProviderResult<vscode.TreeItem[]> {
     const items: vscode.TreeItem[] = [];
 
-    // Top item: current repo (folder name only)
-    const repoPath = this.store.repoPath();
-    const repoLabel = repoPath
-      ? `Repository: ${path.basename(repoPath)}`
-      : "Repository: (not set)";
+    // Top item: current repo(s) (folder name only)
+    const repoPaths = this.store.repoPaths();
+    const repoLabel =
+      repoPaths.length > 1
+        ? `Repositories: ${repoPaths.map((r) => path.basename(r)).join(", ")}`
+        : repoPaths.length
+        ? `Repository: ${path.basename(repoPaths[0])}`
+        : "Repository: (not set)";
     const repoItem = new vscode.TreeItem(
       repoLabel,
       vscode.TreeItemCollapsibleState.None
     );
+    const active = this.store.repoPath();
+    if (repoPaths.length > 1 && active)
+      repoItem.description = `active: ${path.basename(active)}`;
     // repoItem.iconPath = new vscode.ThemeIcon("root-folder");
     repoItem.contextValue = "gitcrumbs.repoInfo";
     items.push(repoItem);
@@ -0,0 +1,47 @@
+import * as vscode from "vscode";
+import type { Store } from "../state/store";
+import { snapshotUri } from "../util/snapshotDocs";
+import { relPathInRepo } from "../util/restorePath";
+
+/**
+ * Gutter change markers relative to a chosen "baseline" snapshot.
+ *
+ * VS Code draws quick-diff decorations for any SourceControl that has a
+ * quickDiffProvider; we point it at the snapshot's copy of the file and let
+ * the editor keep the markers up to date while typing. The SourceControl is
+ * recreated whenever the baseline changes so VS Code re-reads the originals.
+ */
+export class BaselineQuickDiff implements vscode.Disposable {
+  private scms: vscode.SourceControl[] = [];
+
+  constructor(private readonly store: Store) {}
+
+  /** (Re)build one SourceControl per repository that has a baseline. */
+  update() {
+    this.dispose();
+    for (const repo of this.store.repoPaths()) {
+      const baseline = this.store.getBaseline(this.store.repoIdForPath(repo));
+      if (baseline !== undefined) this.scms.push(this.create(repo, baseline));
+    }
+  }
+
+  private create(repo: string, baseline: number): vscode.SourceControl {
+    const scm = vscode.scm.createSourceControl(
+      "gitcrumbs",
+      `Gitcrumbs (baseline #${baseline})`,
+      vscode.Uri.file(repo)
+    );
+    scm.quickDiffProvider = {
+      provideOriginalResource: (uri: vscode.Uri) => {
+        if (uri.scheme !== "file") return undefined;
+        const rel = relPathInRepo(uri, repo);
+        return rel ? snapshotUri(baseline, rel, repo) : undefined;
+      },
+    };
+    return scm;
+  }
+
+  dispose() {
+    for (const scm of this.scms.splice(0)) scm.dispose();
+  }
+}
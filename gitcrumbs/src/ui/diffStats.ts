@@ -0,0 +1,65 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import type { Cli } from "../infra/cli";
+import { countChange, type LineCount } from "../util/lineCounts";
+import { WORKING_TREE, type Change, type DiffTarget } from "../util/types";
+
+export type DiffSort = "kind" | "path" | "churn";
+
+/** Contents of one side; a file missing on that side reads as empty. */
+async function sideText(
+  cli: Cli,
+  repo: string,
+  target: DiffTarget,
+  relPath: string
+): Promise<string> {
+  if (target === WORKING_TREE) {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(
+        vscode.Uri.file(path.join(repo, relPath))
+      );
+      return Buffer.from(bytes).toString("utf8");
+    } catch {
+      return "";
+    }
+  }
+  const res = await cli.run(["show-file", String(target), relPath], repo);
+  return res.code === 0 ? res.stdout : "";
+}
+
+/**
+ * Lines added/removed in one changed file going from A to B, counted with
+ * the same line diff the hunk actions use.
+ */
+export async function countLines(
+  cli: Cli,
+  repo: string,
+  change: Change,
+  a: DiffTarget,
+  b: DiffTarget
+): Promise<LineCount> {
+  // Only the side that has the file needs reading for adds and deletes
+  const before =
+    change.kind === "A" ? "" : await sideText(cli, repo, a, change.path);
+  const after =
+    change.kind === "D" ? "" : await sideText(cli, repo, b, change.path);
+  return countChange(change, before, after);
+}
+
+export async function pickDiffSort(
+  current: DiffSort
+): Promise<DiffSort | undefined> {
+  const options: { label: string; mode: DiffSort }[] = [
+    { label: "$(diff) By kind (Added / Modified / Deleted)", mode: "kind" },
+    { label: "$(list-flat) By path", mode: "path" },
+    { label: "$(flame) By churn (lines changed)", mode: "churn" },
+  ];
+  const picked = await vscode.window.showQuickPick(
+    options.map((o) => ({
+      ...o,
+      description: o.mode === current ? "current" : undefined,
+    })),
+    { placeHolder: "Sort the changed files…" }
+  );
+  return picked?.mode;
+}
@@ -3,166 +3,256 @@ import * as path from "path";
 
 import type { Store } from "../state/store";
 import type { Cli } from "../infra/cli";
-
-type Kind = "A" | "M" | "D";
-type Change = { path: string; kind: Kind };
+import type { GitcrumbsClient } from "../infra/client";
+import {
+  WORKING_TREE,
+  type Change,
+  type ChangeKind as Kind,
+  type DiffTarget,
+} from "../util/types";
+import { targetName } from "../util/snapshotDocs";
+import { RepoItem } from "./repoItem";
+import { countLines, pickDiffSort } from "./diffStats";
+import {
+  formatCount,
+  sortChanges,
+  totalOf,
+  type LineCount,
+} from "../util/lineCounts";
+
+/** A/B selection and its loaded changes, kept per repository. */
+type DiffSelection = {
+  a?: DiffTarget;
+  b?: DiffTarget;
+  aLabel?: string;
+  bLabel?: string;
+  changes: Change[];
+  // Line counts by path, filled in the background after changes load
+  counts: Map<string, LineCount>;
+  loading: boolean;
+  loadKey: string | null;
+};
 
 export class DiffTreeView implements vscode.TreeDataProvider<vscode.TreeItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  private a?: number;
-  private b?: number;
-  private aLabel?: string;
-  private bLabel?: string;
-  private changes: Change[] = [];
-  private loading = false;
-  private loadKey: string | null = null;
+  private selections = new Map<string, DiffSelection>();
 
-  constructor(private readonly store: Store, private readonly cli: Cli) {}
+  constructor(
+    private readonly store: Store,
+    private readonly cli: Cli,
+    private readonly client: GitcrumbsClient
+  ) {}
 
   refresh() {
     this._onDidChangeTreeData.fire();
   }
 
-  private coerceId(item: unknown): number | undefined {
+  private sel(repo: string): DiffSelection {
+    let s = this.selections.get(repo);
+    if (!s) {
+      s = { changes: [], counts: new Map(), loading: false, loadKey: null };
+      this.selections.set(repo, s);
+    }
+    return s;
+  }
+
+  /** Repo an item belongs to, falling back to the active repository. */
+  private repoFor(item?: unknown): string | undefined {
+    const repo = (item as any)?.repoPath;
+    return typeof repo === "string" ? repo : this.store.repoPath();
+  }
+
+  /**
+   * Repo with a current selection, for toolbar actions that get no item:
+   * the active repository if it has one, else the first that does.
+   */
+  private selectedRepo(): string | undefined {
+    const active = this.store.repoPath();
+    if (active && (this.sel(active).a || this.sel(active).b)) return active;
+    return (
+      this.store
+        .repoPaths()
+        .find((r) => this.selections.get(r)?.a || this.selections.get(r)?.b) ??
+      active
+    );
+  }
+
+  /** Current A/B selection (used by openFileSideBySide as a fallback). */
+  get pair(): { a?: DiffTarget; b?: DiffTarget; repo?: string } {
+    const repo = this.selectedRepo();
+    if (!repo) return {};
+    const { a, b } = this.sel(repo);
+    return { a, b, repo };
+  }
+
+  private coerceId(item: unknown): DiffTarget | undefined {
     if (item == null) return undefined;
     const anyItem = item as any;
-    // Doing these checks in order to support our TimelineItem and
-    // Snapshot (from the db) shapes
+    // Doing these checks in order to support our TimelineItem,
+    // WorkingTreeItem and Snapshot (from the db) shapes
     if (typeof anyItem.snapshotId === "number") return anyItem.snapshotId;
+    if (anyItem.snapshotId === WORKING_TREE) return WORKING_TREE;
     if (typeof anyItem.id === "number") return anyItem.id;
     if (typeof item === "number") return item as number;
+    if (item === WORKING_TREE) return WORKING_TREE;
     return undefined;
   }
 
-  private setItemLabel(item: unknown, id?: number): string {
+  private setItemLabel(item: unknown, id?: DiffTarget): string {
     const anyItem = item as any;
     if (typeof anyItem?.label === "string") return anyItem.label;
-    return id ? String(id) : "";
+    return id ? targetName(id) : "";
   }
 
   setA(item?: unknown) {
-    this.a = this.coerceId(item);
-    this.aLabel = this.setItemLabel(item, this.a);
-    void this.reload();
+    const repo = this.repoFor(item);
+    if (!repo) return;
+    const s = this.sel(repo);
+    s.a = this.coerceId(item);
+    s.aLabel = this.setItemLabel(item, s.a);
+    void this.reload(repo);
   }
 
   setB(item?: unknown) {
-    this.b = this.coerceId(item);
-    this.bLabel = this.setItemLabel(item, this.b);
-    void this.reload();
+    const repo = this.repoFor(item);
+    if (!repo) return;
+    const s = this.sel(repo);
+    s.b = this.coerceId(item);
+    s.bLabel = this.setItemLabel(item, s.b);
+    void this.reload(repo);
   }
 
   clearSelection() {
-    this.a = undefined;
-    this.b = undefined;
-    this.changes = [];
-    this.loadKey = null;
-    this.loading = false;
+    this.selections.clear();
+    this.refresh();
+  }
+
+  async chooseSort() {
+    const mode = await pickDiffSort(this.store.getDiffSort());
+    if (!mode) return;
+    await this.store.setDiffSort(mode);
     this.refresh();
   }
 
   // Toolbar helper (QuickPick to choose a file and open side-by-side diff)
-  async openDiff(_item?: vscode.TreeItem) {
-    if (!this.a || !this.b) {
+  async openDiff(item?: vscode.TreeItem) {
+    const repo =
+      (item as any)?.repoPath !== undefined
+        ? this.repoFor(item)
+        : this.selectedRepo();
+    if (!repo) return;
+    const s = this.sel(repo);
+    if (!s.a && !s.b) {
       vscode.window.showInformationMessage("Select Snapshot A and B first.");
       return;
     }
-    if (!this.changes.length && !this.loading) await this.reload();
-    if (!this.changes.length) {
+    if (!s.a || !s.b) {
+      // Only one side picked: the common case is "what changed since X".
+      const choice = await vscode.window.showInformationMessage(
+        `Only Snapshot ${s.a ? "A" : "B"} is selected.`,
+        "Compare with Working Tree"
+      );
+      if (choice !== "Compare with Working Tree") return;
+      if (!s.a) {
+        s.a = WORKING_TREE;
+        s.aLabel = targetName(WORKING_TREE);
+      } else {
+        s.b = WORKING_TREE;
+        s.bLabel = targetName(WORKING_TREE);
+      }
+      await this.reload(repo);
+    }
+    if (!s.changes.length && !s.loading) await this.reload(repo);
+    if (!s.changes.length) {
       vscode.window.showInformationMessage(
-        `No differences between snapshots ${this.a} and ${this.b}.`
+        `No differences between ${targetName(s.a!)} and ${targetName(s.b!)}.`
       );
       return;
     }
     const picked = await vscode.window.showQuickPick(
-      this.changes.map((c) => ({
+      s.changes.map((c) => ({
         label: c.path,
         description:
           c.kind === "A" ? "added" : c.kind === "D" ? "deleted" : "modified",
       })),
-      { placeHolder: `Choose a file to view diff (A=${this.a} ↔ B=${this.b})` }
+      {
+        placeHolder: `Choose a file to view diff (A=${targetName(
+          s.a!
+        )} ↔ B=${targetName(s.b!)})`,
+      }
     );
     if (!picked) return;
 
-    // Use the side-by-side logic (writes temp files via CLI show-file and opens vscode.diff)
+    // Use the side-by-side logic (serves snapshot contents via show-file and opens vscode.diff)
     await vscode.commands.executeCommand(
       "gitcrumbs.openFileSideBySide",
       picked.label, // relPath
-      this.a,
-      this.b
+      s.a,
+      s.b,
+      repo
     );
   }
 
-  private stripAnsi(s: string) {
-    return s.replace(/\x1B\[[0-9;]*m/g, "");
-  }
-
-  private async reload() {
-    if (!this.a || !this.b) {
-      this.changes = [];
-      this.loadKey = null;
-      this.refresh();
-      return;
-    }
-    const repo = this.store.repoPath();
-    if (!repo) {
-      this.changes = [];
-      this.loadKey = null;
+  private async reload(repo: string) {
+    const s = this.sel(repo);
+    if (!s.a || !s.b) {
+      s.changes = [];
+      s.counts = new Map();
+      s.loading = false;
+      s.loadKey = null;
       this.refresh();
       return;
     }
 
-    const key = `${this.a}:${this.b}`;
-    if (this.loading && this.loadKey === key) return;
+    const key = `${s.a}:${s.b}`;
+    if (s.loading && s.loadKey === key) return;
 
-    this.loading = true;
-    this.loadKey = key;
+    s.loading = true;
+    s.loadKey = key;
     this.refresh();
 
-    const res = await this.cli.run(
-      ["diff", String(this.a), String(this.b), "--all"],
-      repo
-    );
-    this.loading = false;
+    const { res, data } = await this.client.diff(repo, s.a, s.b);
+    // A or B changed while this ran; the newer load owns the state
+    if (s.loadKey !== key) return;
+    s.loading = false;
 
-    if (res.code !== 0) {
+    if (!data) {
       await this.cli.showError(
         res,
-        `gitcrumbs diff ${this.a} ${this.b} failed.`
+        `gitcrumbs diff ${targetName(s.a)} ${targetName(s.b)} failed.`
       );
-      this.changes = [];
+      s.changes = [];
+      s.counts = new Map();
       this.refresh();
       return;
     }
 
-    this.changes = this.parseGitcrumbsDiff(this.stripAnsi(res.stdout));
+    s.changes = data;
+    s.counts = new Map();
     this.refresh();
+    void this.countAll(repo, s.counts);
   }
 
-  private parseGitcrumbsDiff(text: string): Change[] {
-    const out: Change[] = [];
-    const lines = text.split(/\r?\n/);
-    const row =
-      /^\s*[│|]\s*(Added|Deleted|Modified)\s*[│|]\s*(\d+)\s*[│|]\s*(.*?)\s*[│|]?\s*$/;
-    const toKind = (c: string): Kind =>
-      c === "Added" ? "A" : c === "Deleted" ? "D" : "M";
-    for (const line of lines) {
-      const m = row.exec(line);
-      if (!m) continue;
-      const cat = m[1],
-        count = Number(m[2]),
-        filesCell = (m[3] || "").trim();
-      if (!count || !filesCell || filesCell === "(none)") continue;
-      for (const raw of filesCell
-        .split(",")
-        .map((s) => s.trim())
-        .filter(Boolean)) {
-        out.push({ path: raw, kind: toKind(cat) });
+  /**
+   * Count lines per file one at a time, repainting every so often. Stops
+   * when the selection is reloaded, which replaces `counts`.
+   */
+  private async countAll(repo: string, counts: Map<string, LineCount>) {
+    const s = this.sel(repo);
+    const { a, b } = s;
+    if (!a || !b) return;
+    let painted = Date.now();
+    for (const c of s.changes) {
+      if (s.counts !== counts) return;
+      counts.set(c.path, await countLines(this.cli, repo, c, a, b));
+      if (Date.now() - painted > 300) {
+        painted = Date.now();
+        this.refresh();
       }
     }
-    return out;
+    if (s.counts === counts) this.refresh();
   }
 
   getTreeItem(el: vscode.TreeItem): vscode.TreeItem {
@@ -170,61 +260,107 @@ export class DiffTreeView implements vscode.TreeDataProvider<vscode.TreeItem> {
   }
 
   async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
-    if (!this.a || !this.b) {
-      return this.getHeader();
-    }
-
-    if (!element) {
-      const nodes: vscode.TreeItem[] = this.getHeader();
-
-      if (this.loading) {
-        const loading = new vscode.TreeItem(
-          "Loading diffs…",
-          vscode.TreeItemCollapsibleState.None
-        );
-        loading.iconPath = new vscode.ThemeIcon("sync~spin");
-        nodes.push(loading);
-        return nodes;
-      }
-
-      nodes.push(new GroupItem("Added", "A", this.count("A")));
-      nodes.push(new GroupItem("Modified", "M", this.count("M")));
-      nodes.push(new GroupItem("Deleted", "D", this.count("D")));
-      return nodes;
-    }
+    if (element instanceof RepoItem) return this.repoChildren(element.repoPath);
 
     if (element instanceof GroupItem) {
-      if (this.loading)
+      const s = this.sel(element.repoPath);
+      if (s.loading)
         return [
           new vscode.TreeItem("Loading…", vscode.TreeItemCollapsibleState.None),
         ];
-      const items = this.changes
-        .filter((c) => c.kind === element.kind)
-        .map((c) => new FileItem(c.path, c.kind, this.a!, this.b!));
+      const items = this.sorted(
+        s,
+        s.changes.filter((c) => c.kind === element.kind)
+      ).map((c) => this.fileItem(s, c, element.repoPath));
       return items.length
         ? items
         : [new vscode.TreeItem("(none)", vscode.TreeItemCollapsibleState.None)];
     }
 
-    return [];
+    if (element) return [];
+
+    const repos = this.store.repoPaths();
+    if (repos.length <= 1)
+      return repos.length ? this.repoChildren(repos[0]) : this.getHeader();
+    return repos.map((r) => {
+      const s = this.selections.get(r);
+      return new RepoItem(r, s && (s.a || s.b) ? this.label(s) : undefined);
+    });
+  }
+
+  private repoChildren(repo: string): vscode.TreeItem[] {
+    const s = this.sel(repo);
+    const nodes: vscode.TreeItem[] = [
+      ...this.getHeader(s),
+      new WorkingTreeItem(repo),
+    ];
+    if (!s.a || !s.b) return nodes;
+
+    if (s.loading) {
+      const loading = new vscode.TreeItem(
+        "Loading diffs…",
+        vscode.TreeItemCollapsibleState.None
+      );
+      loading.iconPath = new vscode.ThemeIcon("sync~spin");
+      nodes.push(loading);
+      return nodes;
+    }
+
+    if (this.store.getDiffSort() !== "kind") {
+      return nodes.concat(
+        this.sorted(s, s.changes).map((c) => this.fileItem(s, c, repo))
+      );
+    }
+    nodes.push(this.groupItem(s, repo, "Added", "A"));
+    nodes.push(this.groupItem(s, repo, "Modified", "M"));
+    nodes.push(this.groupItem(s, repo, "Deleted", "D"));
+    return nodes;
+  }
+
+  private groupItem(s: DiffSelection, repo: string, label: string, k: Kind) {
+    const changes = s.changes.filter((c) => c.kind === k);
+    const item = new GroupItem(repo, label, k, changes.length);
+    item.description = this.totals(s, changes);
+    return item;
+  }
+
+  private fileItem(s: DiffSelection, c: Change, repo: string) {
+    const item = new FileItem(c.path, c.kind, s.a!, s.b!, repo);
+    item.description = formatCount(s.counts.get(c.path));
+    return item;
   }
 
-  private count(k: Kind) {
-    return this.changes.filter((c) => c.kind === k).length;
+  /** Files in the chosen order; churn puts the most lines changed first. */
+  private sorted(s: DiffSelection, changes: Change[]): Change[] {
+    return sortChanges(changes, this.store.getDiffSort(), s.counts);
   }
 
-  private getHeader() {
+  /** "+120 −33" over `changes`, with "…" until every file is counted. */
+  private totals(s: DiffSelection, changes: Change[]): string {
+    if (!changes.length) return "";
+    const t = totalOf(changes.map((c) => s.counts.get(c.path)));
+    const done = changes.every((c) => s.counts.has(c.path));
+    return `+${t.added} −${t.removed}${done ? "" : " …"}`;
+  }
+
+  private getHeader(s?: DiffSelection) {
     let headerItem = [];
 
-    if (this.a || this.b) {
+    if (s && (s.a || s.b)) {
       const label = new vscode.TreeItem(
-        this.label(),
+        this.label(s),
         vscode.TreeItemCollapsibleState.None
       );
       label.contextValue = "gitcrumbs.diff.label";
+      if (s.a && s.b && !s.loading && s.changes.length) {
+        label.description = `${s.changes.length} file${
+          s.changes.length === 1 ? "" : "s"
+        } · ${this.totals(s, s.changes)}`;
+      }
       headerItem.push(label);
     } else {
-      const headerText = "Select two snapshots above for diffing.";
+      const headerText =
+        "Select two snapshots above (or the Working Tree) for diffing.";
       const header = new vscode.TreeItem(
         headerText,
         vscode.TreeItemCollapsibleState.None
@@ -235,10 +371,10 @@ export class DiffTreeView implements vscode.TreeDataProvider<vscode.TreeItem> {
     return headerItem;
   }
 
-  private label() {
-    const a = this.aLabel ?? "–";
-    const b = this.bLabel ?? "–";
-    return this.a || this.b ? `Snapshots: A=${a}   B=${b}` : "";
+  private label(s: DiffSelection) {
+    const a = s.aLabel ?? "–";
+    const b = s.bLabel ?? "–";
+    return s.a || s.b ? `Snapshots: A=${a}   B=${b}` : "";
   }
 
   private coerceRelPath(input: unknown): string | null {
@@ -255,10 +391,17 @@ export class DiffTreeView implements vscode.TreeDataProvider<vscode.TreeItem> {
     return null;
   }
 
-  public async openFilePatch(relArg: unknown, a?: number, b?: number) {
+  public async openFilePatch(
+    relArg: unknown,
+    a?: DiffTarget,
+    b?: DiffTarget
+  ) {
+    const repo = this.repoFor(relArg);
+    if (!repo) return;
+    const s = this.sel(repo);
     // allow callers to override/set A/B before running
-    if (typeof a === "number") this.a = a;
-    if (typeof b === "number") this.b = b;
+    if (a !== undefined) s.a = a;
+    if (b !== undefined) s.b = b;
 
     const rel = this.coerceRelPath(relArg);
     if (!rel) {
@@ -266,8 +409,7 @@ export class DiffTreeView implements vscode.TreeDataProvider<vscode.TreeItem> {
       return;
     }
 
-    const repo = this.store.repoPath();
-    if (!repo || !this.a || !this.b) {
+    if (!s.a || !s.b) {
       vscode.window.showInformationMessage("Select Snapshot A and B first.");
       return;
     }
@@ -277,7 +419,9 @@ export class DiffTreeView implements vscode.TreeDataProvider<vscode.TreeItem> {
 
     for (const p of candidates) {
       for (const flag of ["-f", "--file-path"]) {
-        const args = ["diff", String(this.a), String(this.b), flag, p];
+        // A single id compares against the working tree
+        const ids = [s.a, s.b].filter((t) => t !== WORKING_TREE).map(String);
+        const args = ["diff", ...ids, flag, p];
         log.appendLine(
           `[gitcrumbs] run: ${this.cli.bin} ${args.join(" ")}  (cwd=${repo})`
         );
@@ -320,7 +464,12 @@ export class DiffTreeView implements vscode.TreeDataProvider<vscode.TreeItem> {
 }
 
 class GroupItem extends vscode.TreeItem {
-  constructor(label: string, public readonly kind: Kind, count: number) {
+  constructor(
+    public readonly repoPath: string,
+    label: string,
+    public readonly kind: Kind,
+    count: number
+  ) {
     super(`${label} (${count})`, vscode.TreeItemCollapsibleState.Collapsed);
     this.contextValue = "gitcrumbs.diff.group";
     this.iconPath = new vscode.ThemeIcon(
@@ -337,8 +486,9 @@ class FileItem extends vscode.TreeItem {
   constructor(
     public readonly relPath: string,
     public readonly kind: Kind,
-    public readonly a: number,
-    public readonly b: number
+    public readonly a: DiffTarget,
+    public readonly b: DiffTarget,
+    public readonly repoPath: string
   ) {
     super(relPath, vscode.TreeItemCollapsibleState.None);
     this.contextValue = "gitcrumbs.diff.file";
@@ -353,7 +503,19 @@ class FileItem extends vscode.TreeItem {
     this.command = {
       title: "Open Side-by-Side",
       command: "gitcrumbs.openFileSideBySide",
-      arguments: [this.relPath, this.a, this.b],
+      arguments: [this.relPath, this.a, this.b, this.repoPath],
     };
   }
 }
+
+/** Pseudo-target for the files on disk; pick it as A or B like a snapshot. */
+class WorkingTreeItem extends vscode.TreeItem {
+  readonly snapshotId = WORKING_TREE;
+
+  constructor(public readonly repoPath: string) {
+    super("Working Tree", vscode.TreeItemCollapsibleState.None);
+    this.contextValue = "gitcrumbs.diff.workingTree";
+    this.iconPath = new vscode.ThemeIcon("files");
+    this.tooltip = "Right-click to compare a snapshot with the files on disk";
+  }
+}
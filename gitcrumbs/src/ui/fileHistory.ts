@@ -0,0 +1,123 @@
+import * as vscode from "vscode";
+import type { Store } from "../state/store";
+import type { TouchIndex, FileTouch } from "../state/touchIndex";
+import type { TimelineTreeView } from "./timelineTree";
+import { relPathInRepo } from "../util/restorePath";
+
+/**
+ * Snapshot history of the active editor's file: every snapshot in which
+ * that file changed. Clicking an entry diffs the file between that
+ * snapshot and the one before it.
+ */
+export class FileHistoryView
+  implements vscode.TreeDataProvider<vscode.TreeItem>
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private relPath: string | null = null;
+  private repo: string | undefined;
+  private touches: FileTouch[] = [];
+  private loading = false;
+  private generation = 0;
+
+  constructor(
+    private readonly store: Store,
+    private readonly timeline: TimelineTreeView,
+    private readonly index: TouchIndex
+  ) {}
+
+  /** Re-scan for the active editor's file. */
+  async refresh() {
+    const gen = ++this.generation;
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    const repo = uri && this.store.repoForUri(uri);
+    this.relPath = repo && uri ? relPathInRepo(uri, repo) : null;
+    this.repo = repo;
+    this.touches = [];
+
+    if (!repo || !this.relPath) {
+      this.loading = false;
+      this._onDidChangeTreeData.fire();
+      return;
+    }
+
+    this.loading = true;
+    this._onDidChangeTreeData.fire();
+
+    const relPath = this.relPath;
+    const touches = await vscode.window.withProgress(
+      { location: { viewId: "gitcrumbs.fileHistory" } },
+      () =>
+        this.index.touching(
+          repo,
+          this.timeline.rowsFor(repo),
+          relPath,
+          () => gen !== this.generation
+        )
+    );
+    if (gen !== this.generation) return;
+
+    this.touches = touches;
+    this.loading = false;
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(el: vscode.TreeItem): vscode.TreeItem {
+    return el;
+  }
+
+  getChildren(): vscode.TreeItem[] {
+    if (!this.relPath) {
+      return [
+        new vscode.TreeItem(
+          "Open a file in the repository to see its snapshot history.",
+          vscode.TreeItemCollapsibleState.None
+        ),
+      ];
+    }
+    if (this.loading) {
+      const item = new vscode.TreeItem(
+        "Scanning snapshots…",
+        vscode.TreeItemCollapsibleState.None
+      );
+      item.iconPath = new vscode.ThemeIcon("sync~spin");
+      return [item];
+    }
+    if (!this.touches.length) {
+      return [
+        new vscode.TreeItem(
+          `No snapshots changed ${this.relPath}.`,
+          vscode.TreeItemCollapsibleState.None
+        ),
+      ];
+    }
+    return this.touches.map(
+      (t) => new FileHistoryItem(this.relPath!, t, this.repo!)
+    );
+  }
+}
+
+class FileHistoryItem extends vscode.TreeItem {
+  constructor(relPath: string, touch: FileTouch, repoPath: string) {
+    const { snapshot: s, previous, change } = touch;
+    super(s.label ?? `#${s.id}`, vscode.TreeItemCollapsibleState.None);
+    this.description = `${s.created_at} · ${
+      change.kind === "A" ? "added" : change.kind === "D" ? "deleted" : "modified"
+    }`;
+    this.tooltip = `${relPath}: snapshot ${previous.id} ↔ ${s.id}`;
+    this.iconPath = new vscode.ThemeIcon(
+      change.kind === "A"
+        ? "diff-added"
+        : change.kind === "D"
+        ? "diff-removed"
+        : "diff-modified"
+    );
+    this.contextValue = "gitcrumbs.fileHistory.item";
+    this.command = {
+      title: "Open Side-by-Side",
+      command: "gitcrumbs.openFileSideBySide",
+      arguments: [relPath, previous.id, s.id, repoPath],
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import * as vscode from "vscode";
+import { SNAPSHOT_SCHEME, parseSnapshotUri } from "../util/snapshotDocs";
+import { diffLines, splitLines, type Hunk } from "../util/lineDiff";
+
+/**
+ * CodeLens "Apply from snapshot N" above each hunk of a working file that
+ * is open in a diff against a snapshot (see openFileSideBySide).
+ *
+ * The pairing is read from the open diff tabs, so lenses appear and
+ * disappear with the diff editor. Snapshot contents come from the
+ * gitcrumbs-snapshot: provider, which caches the `show-file` output.
+ */
+export class HunkCodeLensProvider implements vscode.CodeLensProvider {
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  refresh() {
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  async provideCodeLenses(doc: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    const snapUri = comparedSnapshot(doc.uri);
+    const parsed = snapUri && parseSnapshotUri(snapUri);
+    if (!snapUri || !parsed) return [];
+
+    const snap = await vscode.workspace.openTextDocument(snapUri);
+    const hunks = diffLines(splitLines(snap.getText()), splitLines(doc.getText()));
+
+    return hunks.map((h) => {
+      const line = Math.min(h.bStart, doc.lineCount - 1);
+      return new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+        title: `$(arrow-left) Apply from snapshot ${parsed.id} (+${h.aLines.length} −${h.bLines.length})`,
+        tooltip: "Replace these lines with the snapshot's version",
+        command: "gitcrumbs.applyHunk",
+        arguments: [doc.uri, snapUri, h],
+      });
+    });
+  }
+}
+
+/** The snapshot URI an open diff tab pairs with `uri`, if any. */
+function comparedSnapshot(uri: vscode.Uri): vscode.Uri | undefined {
+  const key = uri.toString();
+  for (const group of vscode.window.tabGroups.all) {
+    for (const tab of group.tabs) {
+      const input = tab.input;
+      if (!(input instanceof vscode.TabInputTextDiff)) continue;
+      const { original, modified } = input;
+      if (modified.toString() === key && original.scheme === SNAPSHOT_SCHEME)
+        return original;
+      if (original.toString() === key && modified.scheme === SNAPSHOT_SCHEME)
+        return modified;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Replace one hunk of the working file with the snapshot's lines, as a
+ * single undoable edit. Bails out if the file moved on since the lens was
+ * computed.
+ */
+export async function applyHunk(
+  fileUri: vscode.Uri,
+  snapUri: vscode.Uri,
+  hunk: Hunk
+) {
+  const doc = await vscode.workspace.openTextDocument(fileUri);
+  const lines = splitLines(doc.getText());
+  const current = lines.slice(hunk.bStart, hunk.bStart + hunk.bLines.length);
+  if (current.join("\n") !== hunk.bLines.join("\n")) {
+    vscode.window.showWarningMessage(
+      "Gitcrumbs: The file changed since this hunk was computed. Try again."
+    );
+    return;
+  }
+
+  lines.splice(hunk.bStart, hunk.bLines.length, ...hunk.aLines);
+  const eol = doc.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(
+    fileUri,
+    new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length)),
+    lines.join(eol)
+  );
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    const id = parseSnapshotUri(snapUri)?.id;
+    vscode.window.showErrorMessage(
+      `Gitcrumbs: Failed to apply hunk from snapshot ${id ?? "?"}.`
+    );
+  }
+}
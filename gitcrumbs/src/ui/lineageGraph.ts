@@ -0,0 +1,300 @@
+import * as vscode from "vscode";
+import type { Store } from "../state/store";
+import type { SnapshotRow } from "../util/types";
+import { repoDisplayName } from "../util/selectRepo";
+import { TimelineItem, type TimelineTreeView } from "./timelineTree";
+
+type GraphNode = {
+  id: number;
+  label: string;
+  lane: number;
+  row: number;
+  branch: string;
+  color: string;
+  created: string;
+  current: boolean;
+};
+type GraphEdge = { from: number; to: number; kind: "seq" | "restore" };
+
+// Distinguishable on both light and dark themes
+const PALETTE = [
+  "#4e9bd6",
+  "#d6794e",
+  "#6cbf5a",
+  "#b46ad6",
+  "#d6b84e",
+  "#4ec1c1",
+  "#d64e7c",
+  "#8c8c8c",
+];
+
+function colorFor(branch: string, seen: Map<string, string>): string {
+  let c = seen.get(branch);
+  if (!c) {
+    c = PALETTE[seen.size % PALETTE.length];
+    seen.set(branch, c);
+  }
+  return c;
+}
+
+/**
+ * Lay snapshots out oldest → newest, one row each. A snapshot continues
+ * its parent's lane when the parent is still that lane's tip; otherwise
+ * (a restore that branched off) it opens a new lane.
+ *
+ * Parent = `restored_from_snapshot_id` if set, else the previous snapshot.
+ */
+export function layoutLineage(
+  rows: readonly SnapshotRow[],
+  currentId: number | null
+): { nodes: GraphNode[]; edges: GraphEdge[]; lanes: number } {
+  const byId = [...rows].sort((a, b) => a.id - b.id);
+  const laneTips: number[] = []; // lane index → id of its newest node
+  const laneOf = new Map<number, number>();
+  const colors = new Map<string, string>();
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+
+  byId.forEach((s, row) => {
+    const restoredFrom = s.restored_from_snapshot_id;
+    const parent =
+      restoredFrom != null && laneOf.has(restoredFrom)
+        ? restoredFrom
+        : row > 0
+        ? byId[row - 1].id
+        : null;
+
+    let lane = parent !== null ? laneTips.indexOf(parent) : -1;
+    if (lane === -1) {
+      lane = laneTips.length;
+      laneTips.push(s.id);
+    } else {
+      laneTips[lane] = s.id;
+    }
+    laneOf.set(s.id, lane);
+
+    if (parent !== null) {
+      edges.push({
+        from: parent,
+        to: s.id,
+        kind: parent === restoredFrom ? "restore" : "seq",
+      });
+    }
+
+    const branch = s.branch ?? "?";
+    nodes.push({
+      id: s.id,
+      label: s.label ?? `#${s.id}`,
+      lane,
+      row,
+      branch,
+      color: colorFor(branch, colors),
+      created: s.created_at,
+      current: s.id === currentId,
+    });
+  });
+
+  return { nodes, edges, lanes: Math.max(1, laneTips.length) };
+}
+
+/**
+ * Webview showing the snapshot lineage of the active repository. Clicking
+ * a node offers the usual timeline actions, which run through the
+ * existing commands on that node's repository.
+ */
+export class LineageGraphPanel implements vscode.Disposable {
+  private static current: LineageGraphPanel | undefined;
+
+  private readonly disposables: vscode.Disposable[] = [];
+
+  static show(timeline: TimelineTreeView, store: Store) {
+    if (LineageGraphPanel.current) {
+      LineageGraphPanel.current.panel.reveal();
+      LineageGraphPanel.current.render();
+      return;
+    }
+    const panel = vscode.window.createWebviewPanel(
+      "gitcrumbs.lineage",
+      "Gitcrumbs: Snapshot Lineage",
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: false }
+    );
+    LineageGraphPanel.current = new LineageGraphPanel(panel, timeline, store);
+  }
+
+  /** Redraw the open panel, e.g. for a newly active repository. */
+  static refresh() {
+    LineageGraphPanel.current?.render();
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly timeline: TimelineTreeView,
+    private readonly store: Store
+  ) {
+    this.disposables.push(
+      panel.onDidDispose(() => this.dispose()),
+      panel.webview.onDidReceiveMessage((m) => this.onMessage(m)),
+      timeline.onDidChangeTreeData(() => this.render())
+    );
+    this.render();
+  }
+
+  private render() {
+    const repo = this.store.repoPath();
+    this.panel.title = repo
+      ? `Gitcrumbs: Snapshot Lineage (${repoDisplayName(repo)})`
+      : "Gitcrumbs: Snapshot Lineage";
+    const graph = layoutLineage(
+      this.timeline.rowsFor(repo),
+      this.timeline.cursorFor(repo)
+    );
+    this.panel.webview.html = renderHtml({ ...graph, repo }, nonce());
+  }
+
+  private async onMessage(msg: any) {
+    if (msg?.type !== "select" || typeof msg.id !== "number") return;
+    // The node's own repository, which may no longer be the active one
+    const repo: unknown = msg.repo;
+    if (typeof repo !== "string" || !this.store.repoPaths().includes(repo))
+      return;
+    const row = this.timeline.rowsFor(repo).find((r) => r.id === msg.id);
+    if (!row) return;
+
+    const name = row.label ?? `#${row.id}`;
+    const actions: { label: string; command: string }[] = [
+      { label: "$(history) Restore Snapshot…", command: "gitcrumbs.restore" },
+      { label: "Set as Snapshot A", command: "gitcrumbs.setSnapshotA" },
+      { label: "Set as Snapshot B", command: "gitcrumbs.setSnapshotB" },
+      { label: "$(edit) Rename Snapshot", command: "gitcrumbs.renameSnapshot" },
+    ];
+    const picked = await vscode.window.showQuickPick(actions, {
+      placeHolder: `Snapshot ${name}`,
+    });
+    if (!picked) return;
+    const item = new TimelineItem(name, row.id, row.label, repo);
+    await vscode.commands.executeCommand(picked.command, item);
+  }
+
+  dispose() {
+    LineageGraphPanel.current = undefined;
+    for (const d of this.disposables.splice(0)) d.dispose();
+    this.panel.dispose();
+  }
+}
+
+function nonce(): string {
+  let s = "";
+  const chars =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  for (let i = 0; i < 32; i++)
+    s += chars.charAt(Math.floor(Math.random() * chars.length));
+  return s;
+}
+
+function renderHtml(
+  graph: ReturnType<typeof layoutLineage> & { repo: string | undefined },
+  nonce: string
+): string {
+  // Data goes in as JSON; "<" is escaped so labels can't close the script tag
+  const data = JSON.stringify(graph).replace(/</g, "\\u003c");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+  .node { cursor: pointer; }
+  .node text { fill: var(--vscode-foreground); font-size: 12px; }
+  .node .meta { fill: var(--vscode-descriptionForeground); }
+  .node:hover circle { stroke-width: 3; }
+  .legend span { display: inline-block; margin-right: 12px; }
+  .legend i { display: inline-block; width: 10px; height: 10px; border-radius: 50%; margin-right: 4px; }
+  .empty { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<div class="legend" id="legend"></div>
+<svg id="graph"></svg>
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  const { nodes, edges, lanes, repo } = ${data};
+  const LANE = 22, ROW = 28, PAD = 16;
+  const svg = document.getElementById("graph");
+  const NS = "http://www.w3.org/2000/svg";
+  const el = (tag, attrs) => {
+    const e = document.createElementNS(NS, tag);
+    for (const k in attrs) e.setAttribute(k, attrs[k]);
+    return e;
+  };
+
+  if (!nodes.length) {
+    document.body.insertAdjacentHTML("beforeend", '<p class="empty">No snapshots yet.</p>');
+  }
+
+  // Newest at the top, like the timeline
+  const maxRow = nodes.length - 1;
+  const pos = new Map(nodes.map((n) => [n.id, {
+    x: PAD + n.lane * LANE,
+    y: PAD + (maxRow - n.row) * ROW,
+  }]));
+  const textX = PAD + lanes * LANE + 8;
+  svg.setAttribute("width", String(textX + 600));
+  svg.setAttribute("height", String(PAD * 2 + nodes.length * ROW));
+
+  for (const e of edges) {
+    const a = pos.get(e.from), b = pos.get(e.to);
+    if (!a || !b) continue;
+    const midY = (a.y + b.y) / 2;
+    svg.appendChild(el("path", {
+      d: "M" + a.x + " " + a.y + " C " + a.x + " " + midY + ", " + b.x + " " + midY + ", " + b.x + " " + b.y,
+      fill: "none",
+      stroke: "var(--vscode-foreground)",
+      "stroke-opacity": "0.5",
+      "stroke-width": "1.5",
+      "stroke-dasharray": e.kind === "restore" ? "4 3" : "",
+    }));
+  }
+
+  for (const n of nodes) {
+    const p = pos.get(n.id);
+    const g = el("g", { class: "node" });
+    const title = el("title", {});
+    title.textContent = n.label + " (#" + n.id + ") · " + n.branch + " · " + n.created;
+    g.appendChild(title);
+    g.appendChild(el("circle", {
+      cx: p.x, cy: p.y, r: n.current ? 7 : 5,
+      fill: n.color,
+      stroke: n.current ? "var(--vscode-focusBorder)" : n.color,
+      "stroke-width": n.current ? 3 : 1,
+    }));
+    const label = el("text", { x: textX, y: p.y + 4 });
+    label.textContent = n.label + (n.current ? "  (current)" : "");
+    const meta = el("tspan", { class: "meta", dx: 8 });
+    meta.textContent = n.created + " · " + n.branch;
+    label.appendChild(meta);
+    g.appendChild(label);
+    g.addEventListener("click", () => vscode.postMessage({ type: "select", id: n.id, repo }));
+    svg.appendChild(g);
+  }
+
+  const legend = document.getElementById("legend");
+  const seen = new Set();
+  for (const n of nodes) {
+    if (seen.has(n.branch)) continue;
+    seen.add(n.branch);
+    const s = document.createElement("span");
+    const dot = document.createElement("i");
+    dot.style.background = n.color;
+    s.appendChild(dot);
+    s.appendChild(document.createTextNode(n.branch));
+    legend.appendChild(s);
+  }
+  const key = document.createElement("span");
+  key.textContent = "dashed = continued from a restored snapshot";
+  legend.appendChild(key);
+</script>
+</body>
+</html>`;
+}
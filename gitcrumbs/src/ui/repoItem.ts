@@ -0,0 +1,18 @@
+import * as vscode from "vscode";
+import { repoDisplayName } from "../util/selectRepo";
+
+/**
+ * Root node for one repository. Only shown when the workspace has more
+ * than one repository; with a single repo the views list its content
+ * directly, as before.
+ */
+export class RepoItem extends vscode.TreeItem {
+  constructor(public readonly repoPath: string, description?: string) {
+    super(repoDisplayName(repoPath), vscode.TreeItemCollapsibleState.Expanded);
+    this.id = `gitcrumbs.repo:${repoPath}`;
+    this.description = description;
+    this.tooltip = repoPath;
+    this.iconPath = new vscode.ThemeIcon("repo");
+    this.contextValue = "gitcrumbs.repo";
+  }
+}
@@ -0,0 +1,88 @@
+import * as vscode from "vscode";
+import type { Cli } from "../infra/cli";
+import type { GitcrumbsClient } from "../infra/client";
+import { WORKING_TREE, type Change } from "../util/types";
+
+export type RestoreImpact = {
+  modified: string[]; // differ between working tree and snapshot
+  recreated: string[]; // missing on disk, present in the snapshot
+  purged: string[]; // on disk, absent from the snapshot (removed with --purge)
+};
+
+const MAX_LISTED = 12;
+
+export function restoreImpact(changes: Change[]): RestoreImpact {
+  // Changes are "working tree → snapshot", i.e. what restoring would do.
+  return {
+    modified: changes.filter((c) => c.kind === "M").map((c) => c.path),
+    recreated: changes.filter((c) => c.kind === "A").map((c) => c.path),
+    purged: changes.filter((c) => c.kind === "D").map((c) => c.path),
+  };
+}
+
+function listSection(title: string, files: string[]): string {
+  if (!files.length) return "";
+  const shown = files.slice(0, MAX_LISTED).map((f) => `  ${f}`);
+  if (files.length > MAX_LISTED)
+    shown.push(`  …and ${files.length - MAX_LISTED} more`);
+  return [`${title} (${files.length}):`, ...shown].join("\n");
+}
+
+/**
+ * Show what restoring snapshot `id` would do to the working tree and let
+ * the user pick purge/no-purge for this restore only.
+ *
+ * Resolves to the chosen purge flag, or undefined if the user cancelled
+ * (or the preview diff could not be computed).
+ */
+export async function confirmRestore(
+  cli: Cli,
+  client: GitcrumbsClient,
+  repo: string,
+  id: number,
+  name: string
+): Promise<{ purge: boolean } | undefined> {
+  const { res, data } = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: `Gitcrumbs: Preparing restore preview for ${name}…`,
+    },
+    () => client.diff(repo, WORKING_TREE, id)
+  );
+  if (!data) {
+    await cli.showError(res, `Could not preview restoring snapshot ${name}.`);
+    return undefined;
+  }
+
+  const impact = restoreImpact(data);
+  const purgeDefault = vscode.workspace
+    .getConfiguration("gitcrumbs")
+    .get<boolean>("restore.purgeDefault", false);
+
+  const detail = [
+    listSection("Will be overwritten", impact.modified),
+    listSection("Will be recreated", impact.recreated),
+    listSection("Not in snapshot (deleted only with purge)", impact.purged),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const restore = "Restore";
+  const restorePurge = "Restore and Purge";
+  const buttons = !impact.purged.length
+    ? [restore]
+    : purgeDefault
+    ? [restorePurge, restore]
+    : [restore, restorePurge];
+
+  const choice = await vscode.window.showWarningMessage(
+    `Restore snapshot ${name}?`,
+    {
+      modal: true,
+      detail: detail || "The working tree already matches this snapshot.",
+    },
+    ...buttons
+  );
+  if (!choice) return undefined;
+  return { purge: choice === restorePurge };
+}
@@ -0,0 +1,108 @@
+import * as vscode from "vscode";
+import type { Store } from "../state/store";
+
+export const NOTE_SCHEME = "gitcrumbs-note";
+
+/**
+ * Editable document for a snapshot's markdown note.
+ *
+ * Shape: gitcrumbs-note:/snapshot-<id>.md?<repo>
+ */
+export function noteUri(id: number, repoPath: string): vscode.Uri {
+  return vscode.Uri.from({
+    scheme: NOTE_SCHEME,
+    path: `/snapshot-${id}.md`,
+    query: repoPath,
+  });
+}
+
+function parseNoteUri(uri: vscode.Uri): { id: number; repo: string } | null {
+  const m = /^\/snapshot-(\d+)\.md$/.exec(uri.path);
+  if (!m || !uri.query) return null;
+  return { id: Number(m[1]), repo: uri.query };
+}
+
+/**
+ * Backs note documents with the workspace state, so notes are edited in a
+ * normal markdown editor and saved with Ctrl+S. Saving an empty note
+ * removes it.
+ */
+export class SnapshotNoteFs implements vscode.FileSystemProvider {
+  private changeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this.changeEmitter.event;
+
+  // Fired with the repo path after a note was saved
+  private savedEmitter = new vscode.EventEmitter<string>();
+  readonly onDidSaveNote = this.savedEmitter.event;
+
+  // Stable mtimes so VS Code doesn't report the note as changed on disk
+  private mtimes = new Map<string, number>();
+
+  constructor(private readonly store: Store) {}
+
+  private target(uri: vscode.Uri) {
+    const parsed = parseNoteUri(uri);
+    if (!parsed) throw vscode.FileSystemError.FileNotFound(uri);
+    return { ...parsed, repoId: this.store.repoIdForPath(parsed.repo) };
+  }
+
+  watch(): vscode.Disposable {
+    return new vscode.Disposable(() => undefined);
+  }
+
+  stat(uri: vscode.Uri): vscode.FileStat {
+    const { id, repoId } = this.target(uri);
+    const note = this.store.getNote(repoId, id) ?? "";
+    return {
+      type: vscode.FileType.File,
+      ctime: 0,
+      mtime: this.mtimes.get(uri.toString()) ?? 0,
+      size: Buffer.byteLength(note, "utf8"),
+    };
+  }
+
+  readFile(uri: vscode.Uri): Uint8Array {
+    const { id, repoId } = this.target(uri);
+    return Buffer.from(this.store.getNote(repoId, id) ?? "", "utf8");
+  }
+
+  async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+    const { id, repo, repoId } = this.target(uri);
+    await this.store.setNote(repoId, id, Buffer.from(content).toString("utf8"));
+    this.mtimes.set(uri.toString(), Date.now());
+    this.changeEmitter.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    this.savedEmitter.fire(repo);
+  }
+
+  async delete(uri: vscode.Uri): Promise<void> {
+    await this.writeFile(uri, new Uint8Array());
+  }
+
+  readDirectory(): [string, vscode.FileType][] {
+    return [];
+  }
+
+  createDirectory(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+
+  rename(uri: vscode.Uri): void {
+    throw vscode.FileSystemError.NoPermissions(uri);
+  }
+}
+
+/** Open the note of the clicked (or picked) snapshot for editing. */
+export async function editNote(
+  item: { snapshotId?: number; repoPath?: string } | undefined,
+  pick: () => Promise<{ id: number; repo: string } | undefined>
+) {
+  const target =
+    item?.snapshotId !== undefined && item.repoPath
+      ? { id: item.snapshotId, repo: item.repoPath }
+      : await pick();
+  if (!target) return;
+  const doc = await vscode.workspace.openTextDocument(
+    noteUri(target.id, target.repo)
+  );
+  await vscode.window.showTextDocument(doc, { preview: false });
+}
@@ -0,0 +1,206 @@
+import * as vscode from "vscode";
+import type { SnapshotRow } from "../util/types";
+
+export type TimelineFilter = {
+  text?: string; // label, summary or note, case-insensitive
+  branch?: string; // substring of the branch name
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  path?: string; // repo-relative path, folder or glob
+  passing?: "all" | "last"; // builds/tests passed; "last" keeps the newest
+};
+
+export function isFilterActive(f: TimelineFilter): boolean {
+  return Boolean(f.text || f.branch || f.from || f.to || f.path || f.passing);
+}
+
+/**
+ * Row-level checks; the path filter needs the touch index and the passing
+ * filter the recorded outcomes, so those are applied separately.
+ */
+export function matchesFilter(
+  row: SnapshotRow,
+  f: TimelineFilter,
+  note?: string
+): boolean {
+  if (f.text) {
+    const needle = f.text.toLowerCase();
+    const hay = `${row.label ?? ""}\n${row.summary ?? ""}\n${
+      note ?? ""
+    }`.toLowerCase();
+    if (!hay.includes(needle)) return false;
+  }
+  if (
+    f.branch &&
+    !(row.branch ?? "").toLowerCase().includes(f.branch.toLowerCase())
+  )
+    return false;
+  const day = row.created_at.slice(0, 10);
+  if (f.from && day < f.from) return false;
+  if (f.to && day > f.to) return false;
+  return true;
+}
+
+/**
+ * Compile a path filter into a predicate. Plain paths match the file itself
+ * or anything under it; `*`, `**` and `?` are treated as globs.
+ */
+export function pathMatcher(pattern: string): (relPath: string) => boolean {
+  const p = pattern
+    .trim()
+    .replace(/\\/g, "/")
+    .replace(/^\.?\/+/, "");
+  if (!/[*?]/.test(p)) {
+    const prefix = p.replace(/\/+$/, "");
+    return (rel) => rel === prefix || rel.startsWith(`${prefix}/`);
+  }
+  let re = "";
+  for (let i = 0; i < p.length; i++) {
+    const c = p[i];
+    if (c === "*" && p[i + 1] === "*") {
+      // "**/" matches zero or more directories
+      if (p[i + 2] === "/") {
+        re += "(?:.*/)?";
+        i += 2;
+      } else {
+        re += ".*";
+        i += 1;
+      }
+    } else if (c === "*") re += "[^/]*";
+    else if (c === "?") re += "[^/]";
+    else re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+  const rx = new RegExp(`^${re}$`);
+  return (rel) => rx.test(rel);
+}
+
+export function describeFilter(f: TimelineFilter): string {
+  const parts: string[] = [];
+  if (f.text) parts.push(`"${f.text}"`);
+  if (f.branch) parts.push(`branch: ${f.branch}`);
+  if (f.from || f.to) parts.push(`${f.from ?? "…"} – ${f.to ?? "…"}`);
+  if (f.path) parts.push(`touches: ${f.path}`);
+  if (f.passing)
+    parts.push(f.passing === "last" ? "last green" : "builds/tests passed");
+  return parts.length ? `Filtered: ${parts.join(", ")}` : "";
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * QuickPick-driven editor for the timeline filter. Resolves to the new
+ * filter, or undefined if the user backed out without changing anything.
+ */
+export async function promptFilter(
+  current: TimelineFilter
+): Promise<TimelineFilter | undefined> {
+  type Field = keyof TimelineFilter | "dates" | "clear";
+  const show = (v?: string) => (v ? `= ${v}` : "");
+  const picked = await vscode.window.showQuickPick<
+    vscode.QuickPickItem & { field: Field }
+  >(
+    [
+      {
+        label: "$(search) Label, summary or note",
+        description: show(current.text),
+        field: "text",
+      },
+      {
+        label: "$(git-branch) Branch",
+        description: show(current.branch),
+        field: "branch",
+      },
+      {
+        label: "$(calendar) Date range",
+        description:
+          current.from || current.to
+            ? `= ${current.from ?? ""}..${current.to ?? ""}`
+            : "",
+        field: "dates",
+      },
+      {
+        label: "$(file) Touches path or glob",
+        description: show(current.path),
+        field: "path",
+      },
+      {
+        label: "$(pass) Builds and tests passed",
+        description: show(
+          current.passing &&
+            (current.passing === "last" ? "last green only" : "all green")
+        ),
+        field: "passing",
+      },
+      { label: "$(clear-all) Clear filter", field: "clear" },
+    ],
+    { placeHolder: "Filter the snapshot timeline by…" }
+  );
+  if (!picked) return undefined;
+
+  const next: TimelineFilter = { ...current };
+  switch (picked.field) {
+    case "clear":
+      return {};
+    case "text":
+    case "branch":
+    case "path": {
+      const value = await vscode.window.showInputBox({
+        prompt:
+          picked.field === "path"
+            ? "Only snapshots that changed this path (folder, file or glob like src/**/*.ts). Leave empty to remove."
+            : `Only snapshots whose ${
+                picked.field === "text" ? "label, summary or note" : "branch"
+              } contains… Leave empty to remove.`,
+        value: current[picked.field] ?? "",
+      });
+      if (value === undefined) return undefined;
+      next[picked.field] = value.trim() || undefined;
+      return next;
+    }
+    case "passing": {
+      const choice = await vscode.window.showQuickPick(
+        [
+          {
+            label: "Last green snapshot",
+            detail:
+              "The newest snapshot whose recorded builds and tests all passed",
+            value: "last" as const,
+          },
+          {
+            label: "All green snapshots",
+            value: "all" as const,
+          },
+          { label: "Any outcome", value: undefined },
+        ],
+        { placeHolder: "Only snapshots where builds and tests passed…" }
+      );
+      if (!choice) return undefined;
+      next.passing = choice.value;
+      return next;
+    }
+    case "dates": {
+      const value = await vscode.window.showInputBox({
+        prompt:
+          "Date range as FROM..TO (YYYY-MM-DD). Either side may be empty.",
+        placeHolder: "2025-01-01..2025-01-31",
+        value:
+          current.from || current.to
+            ? `${current.from ?? ""}..${current.to ?? ""}`
+            : "",
+        validateInput: (s: string) => {
+          if (!s.trim()) return undefined;
+          const [from, to] = s.split("..").map((x) => x?.trim() ?? "");
+          if ((from && !DAY.test(from)) || (to && !DAY.test(to)))
+            return "Use YYYY-MM-DD..YYYY-MM-DD";
+          return undefined;
+        },
+      });
+      if (value === undefined) return undefined;
+      const [from, to] = value.split("..").map((x) => x?.trim() ?? "");
+      next.from = from || undefined;
+      next.to = to || undefined;
+      return next;
+    }
+  }
+  return undefined;
+}
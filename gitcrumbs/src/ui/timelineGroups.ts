@@ -0,0 +1,90 @@
+import * as vscode from "vscode";
+import type { SnapshotRow } from "../util/types";
+
+export type TimelineGrouping = "none" | "day" | "branch" | "commit";
+
+export type TimelineGroup = { key: string; rows: SnapshotRow[] };
+
+function keyFor(row: SnapshotRow, mode: TimelineGrouping): string {
+  switch (mode) {
+    case "day":
+      return row.created_at.slice(0, 10) || "(unknown date)";
+    case "branch":
+      return row.branch ?? "(no branch)";
+    case "commit":
+      return row.head_commit ? row.head_commit.slice(0, 7) : "(unknown commit)";
+    default:
+      return "";
+  }
+}
+
+/** Split rows (already newest first) into groups, keeping that order. */
+export function groupRows(
+  rows: readonly SnapshotRow[],
+  mode: TimelineGrouping
+): TimelineGroup[] {
+  const groups = new Map<string, SnapshotRow[]>();
+  for (const r of rows) {
+    const key = keyFor(r, mode);
+    const list = groups.get(key);
+    if (list) list.push(r);
+    else groups.set(key, [r]);
+  }
+  return [...groups].map(([key, rows]) => ({ key, rows }));
+}
+
+/**
+ * "14:02–17:45" for a single day, otherwise "2025-01-02 – 2025-01-05"
+ * (or just the one timestamp when the group has a single snapshot).
+ */
+export function timeSpan(
+  rows: readonly SnapshotRow[],
+  mode: TimelineGrouping
+): string {
+  const times = rows
+    .map((r) => r.created_at)
+    .filter(Boolean)
+    .sort();
+  if (!times.length) return "";
+  const first = times[0],
+    last = times[times.length - 1];
+  if (mode === "day") {
+    const t = (s: string) => s.slice(11, 16);
+    return first === last ? t(first) : `${t(first)}–${t(last)}`;
+  }
+  const d = (s: string) => s.slice(0, 10);
+  if (d(first) === d(last))
+    return first === last
+      ? first.slice(0, 16)
+      : `${d(first)} ${first.slice(11, 16)}–${last.slice(11, 16)}`;
+  return `${d(first)} – ${d(last)}`;
+}
+
+/**
+ * `hasCommits` says whether any loaded snapshot knows its HEAD commit; the
+ * CLI's table output doesn't include it, so grouping by commit is only
+ * offered when the JSON output did.
+ */
+export async function pickGrouping(
+  current: TimelineGrouping,
+  hasCommits: boolean
+): Promise<TimelineGrouping | undefined> {
+  const options: { label: string; mode: TimelineGrouping }[] = [
+    { label: "$(list-flat) No grouping", mode: "none" },
+    { label: "$(calendar) By day", mode: "day" },
+    { label: "$(git-branch) By branch", mode: "branch" },
+  ];
+  if (hasCommits || current === "commit")
+    options.push({
+      label: "$(git-commit) By git HEAD commit",
+      mode: "commit",
+    });
+  const picked = await vscode.window.showQuickPick(
+    options.map((o) => ({
+      ...o,
+      description: o.mode === current ? "current" : undefined,
+    })),
+    { placeHolder: "Group the snapshot timeline…" }
+  );
+  return picked?.mode;
+}
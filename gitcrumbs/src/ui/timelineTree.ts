@@ -1,62 +1,172 @@
 import * as vscode from "vscode";
-import type { Store } from "../state/store";
+import type { NavMove, Store } from "../state/store";
 import type { Cli } from "../infra/cli";
+import type { GitcrumbsClient } from "../infra/client";
+import type { SnapshotRow } from "../util/types";
+import type { TouchIndex } from "../state/touchIndex";
+import { confirmRestore } from "./restorePreview";
+import {
+  type TimelineFilter,
+  describeFilter,
+  isFilterActive,
+  matchesFilter,
+  pathMatcher,
+  promptFilter,
+} from "./timelineFilter";
+import { groupRows, pickGrouping, timeSpan } from "./timelineGroups";
+import { RepoItem } from "./repoItem";
+import { triggerLabel } from "../infra/triggerLabels";
+import { triggerEnabled } from "../infra/snapshotTriggers";
+import { describeOutcome, outcomeState } from "../infra/taskOutcomes";
+import { pickRepo, repoDisplayName } from "../util/selectRepo";
+import {
+  describePlan,
+  planRetention,
+  type RetentionRules,
+} from "../state/retention";
 
-type SnapshotRow = {
-  id: number;
-  label: string | null;
-  created_at: string; // "YYYY-MM-DD HH:MM:SS"
-  branch: string | null;
-  summary: string | null;
-  restored_from_snapshot_id: number | null;
+type RepoTimeline = {
+  snapshots: SnapshotRow[];
+  currentId: number | null;
+  // Snapshot IDs that touch filter.path (null when no path filter is set)
+  pathIds: Set<number> | null;
 };
 
+const emptyTimeline = (): RepoTimeline => ({
+  snapshots: [],
+  currentId: null,
+  pathIds: null,
+});
+
 export class TimelineTreeView
-  implements vscode.TreeDataProvider<TimelineItem | vscode.TreeItem>
+  implements
+    vscode.TreeDataProvider<TimelineItem | vscode.TreeItem>,
+    vscode.Disposable
 {
   private _onDidChangeTreeData = new vscode.EventEmitter<void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  private snapshots: SnapshotRow[] = [];
-  private currentId: number | null = null;
+  // Keyed by repo path; one entry per repository in the workspace
+  private repos = new Map<string, RepoTimeline>();
+
+  // Snapshot in flight per repo: later snapshots queue behind it, and
+  // triggers join it instead of piling up
+  private snapshotting = new Map<string, Promise<SnapshotResult>>();
+
+  // Debounce timers for scheduleUpdate(), per repo
+  private pending = new Map<string, NodeJS.Timeout>();
+
+  private filter: TimelineFilter = {};
+  private view?: vscode.TreeView<TimelineItem | vscode.TreeItem>;
+
+  constructor(
+    private readonly store: Store,
+    private readonly cli: Cli,
+    private readonly client: GitcrumbsClient,
+    private readonly touchIndex: TouchIndex
+  ) {}
+
+  /** Give the provider its TreeView so it can show the active filter. */
+  attachView(view: vscode.TreeView<TimelineItem | vscode.TreeItem>) {
+    this.view = view;
+    this.updateFilterDescription();
+    this.updateUndoContext();
+  }
 
-  constructor(private readonly store: Store, private readonly cli: Cli) {}
+  /** Reload one repository, or every repository when none is given. */
+  async refresh(repo?: string) {
+    const all = this.store.repoPaths();
+    for (const known of [...this.repos.keys()]) {
+      if (!all.includes(known)) this.repos.delete(known);
+    }
+    const targets = repo ? [repo] : all;
+    await Promise.all(targets.map((r) => this.load(r)));
+    this._onDidChangeTreeData.fire();
+  }
 
-  async refresh() {
+  /** Coalesce a burst of snapshot store changes into one update(). */
+  scheduleUpdate(repo: string, delayMs = 500) {
+    clearTimeout(this.pending.get(repo));
+    this.pending.set(
+      repo,
+      setTimeout(() => {
+        this.pending.delete(repo);
+        void this.update(repo);
+      }, delayMs)
+    );
+  }
+
+  /**
+   * Called when the snapshot store changed. Fetches only snapshots newer
+   * than the newest one loaded, plus the cursor; when there are none, the
+   * change was a rename, delete or prune made elsewhere, so the whole
+   * timeline is reloaded.
+   */
+  async update(repo: string) {
+    const state = this.repos.get(repo);
+    if (!state?.snapshots.length) return this.refresh(repo);
     try {
-      const repo = this.store.repoPath();
-      if (!repo) {
-        this.snapshots = [];
-        this.currentId = null;
-        this._onDidChangeTreeData.fire();
-        return;
-      }
+      const newest = state.snapshots[0].id;
+      const added = await this.client.timelineSince(repo, newest);
+      if (!added.data) return;
+      if (!added.data.length) return this.refresh(repo);
+      const status = await this.client.status(repo);
+      const currentId = status.data?.cursorId ?? state.currentId;
 
+      // NEWEST FIRST
+      added.data.sort((a, b) => b.id - a.id);
+      state.snapshots = added.data.concat(state.snapshots);
+      state.currentId = currentId;
+      if (this.filter.path) await this.computePathIds(repo);
+      this._onDidChangeTreeData.fire();
+    } catch (e: any) {
+      console.error("[gitcrumbs] timeline update failed:", e?.message || e);
+    }
+  }
+
+  dispose() {
+    for (const t of this.pending.values()) clearTimeout(t);
+    this.pending.clear();
+  }
+
+  private async load(repo: string) {
+    try {
       // 1) Get timeline rows
-      const timelineRes = await this.cli.run(["timeline"], repo);
-      if (timelineRes.code !== 0) {
-        this.snapshots = [];
-        this.currentId = null;
-        this._onDidChangeTreeData.fire();
+      const timeline = await this.client.timeline(repo);
+      if (!timeline.data) {
+        this.repos.set(repo, emptyTimeline());
         return;
       }
-      this.snapshots = this.parseTimelineFromCli(timelineRes.stdout);
+      const state = emptyTimeline();
+      state.snapshots = timeline.data;
+      await this.store.forgetMissingSnapshots(
+        this.store.repoIdForPath(repo),
+        new Set(timeline.data.map((s) => s.id))
+      );
 
       // 2) Get current cursor snapshot id from `status`
-      const statusRes = await this.cli.run(["status"], repo);
-      this.currentId = this.parseCurrentIdFromStatus(statusRes.stdout);
+      const status = await this.client.status(repo);
+      state.currentId = status.data?.cursorId ?? null;
 
       // NEWEST FIRST
-      this.snapshots.sort((a, b) => b.id - a.id);
-      this._onDidChangeTreeData.fire();
+      state.snapshots.sort((a, b) => b.id - a.id);
+      this.repos.set(repo, state);
+      if (this.filter.path) await this.computePathIds(repo);
     } catch (e: any) {
       console.error("[gitcrumbs] timeline refresh failed:", e?.message || e);
-      this.snapshots = [];
-      this.currentId = null;
-      this._onDidChangeTreeData.fire();
+      this.repos.set(repo, emptyTimeline());
     }
   }
 
+  private stateFor(repo: string | undefined): RepoTimeline {
+    return (repo && this.repos.get(repo)) || emptyTimeline();
+  }
+
+  /** Repo an item belongs to, falling back to the active repository. */
+  private repoFor(item?: { repoPath?: string }): string | undefined {
+    return item?.repoPath ?? this.store.repoPath();
+  }
+
   getTreeItem(el: TimelineItem): vscode.TreeItem {
     return el;
   }
@@ -72,54 +182,472 @@ export class TimelineTreeView
     return [header];
   }
 
-  getChildren(): Promise<(TimelineItem | vscode.TreeItem)[]> {
-    if (!this.snapshots.length) return Promise.resolve([]);
-    const items = this.getHeader().concat(
-      this.snapshots.map((s) => {
-        const primary = s.label ?? `#${s.id}`; // label first, fallback to id
+  getChildren(
+    element?: TimelineItem | vscode.TreeItem
+  ): Promise<(TimelineItem | vscode.TreeItem)[]> {
+    if (element instanceof TimelineGroupItem)
+      return Promise.resolve(
+        element.rows.map((s) => this.makeItem(element.repoPath, s))
+      );
+    if (element instanceof RepoItem)
+      return Promise.resolve(this.repoChildren(element.repoPath));
+    if (element) return Promise.resolve([]);
+
+    const repos = this.store.repoPaths();
+    if (repos.length <= 1)
+      return Promise.resolve(repos.length ? this.repoChildren(repos[0]) : []);
+    return Promise.resolve(
+      repos.map((r) => {
+        const n = this.stateFor(r).snapshots.length;
+        return new RepoItem(r, `${n} snapshot${n === 1 ? "" : "s"}`);
+      })
+    );
+  }
+
+  private repoChildren(repo: string): (TimelineItem | vscode.TreeItem)[] {
+    const { snapshots, currentId } = this.stateFor(repo);
+    if (!snapshots.length) return [];
+    const visible = this.visibleRows(repo);
+    const header = isFilterActive(this.filter)
+      ? [
+          new vscode.TreeItem(
+            `Showing ${visible.length} of ${snapshots.length} snapshots.`,
+            vscode.TreeItemCollapsibleState.None
+          ),
+        ]
+      : this.getHeader();
 
-        const isCurrent = this.currentId !== null && s.id === this.currentId;
-        const item = new TimelineItem(primary, s.id, s.label);
+    // Pinned snapshots sit above everything else, in timeline order
+    const pinnedIds = new Set(
+      this.store.getPinned(this.store.repoIdForPath(repo))
+    );
+    const pinned = visible
+      .filter((s) => pinnedIds.has(s.id))
+      .map((s) => this.makeItem(repo, s));
+    const rest = visible.filter((s) => !pinnedIds.has(s.id));
+    const top = (header as (TimelineItem | vscode.TreeItem)[]).concat(pinned);
+
+    const mode = this.store.getTimelineGrouping();
+    if (mode === "none") {
+      return top.concat(rest.map((s) => this.makeItem(repo, s)));
+    }
+
+    // Newest group starts expanded, older ones are folded away
+    const groups = groupRows(rest, mode).map(
+      (g, i) =>
+        new TimelineGroupItem(
+          repo,
+          g.key,
+          g.rows,
+          timeSpan(g.rows, mode),
+          i === 0,
+          g.rows.some((r) => r.id === currentId)
+        )
+    );
+    return top.concat(groups);
+  }
+
+  private makeItem(repo: string, s: SnapshotRow): TimelineItem {
+    const repoId = this.store.repoIdForPath(repo);
+    const baseline = this.store.getBaseline(repoId);
+    const isPinned = this.store.getPinned(repoId).includes(s.id);
+    const note = this.store.getNote(repoId, s.id);
+    const primary = s.label ?? `#${s.id}`; // label first, fallback to id
+
+    const { currentId } = this.stateFor(repo);
+    const isCurrent = currentId !== null && s.id === currentId;
+    const item = new TimelineItem(primary, s.id, s.label, repo);
+    if (isPinned) item.contextValue = "gitcrumbs.timeline.item.pinned";
+
+    const outcomes = this.store.getOutcomes(repoId)[s.id] ?? [];
+    const outcome = outcomeState(outcomes);
+
+    // Icon: ✓ for current snapshot, else how its builds/tests went
+    if (isCurrent) {
+      item.iconPath = new vscode.ThemeIcon("check");
+    } else if (outcome) {
+      item.iconPath =
+        outcome === "passed"
+          ? new vscode.ThemeIcon(
+              "testing-passed-icon",
+              new vscode.ThemeColor("testing.iconPassed")
+            )
+          : new vscode.ThemeIcon(
+              "testing-failed-icon",
+              new vscode.ThemeColor("testing.iconFailed")
+            );
+    }
+
+    // Show created + branch in the description
+    item.description = `${s.created_at} · ${s.branch ?? "?"}`;
+    if (s.id === baseline) {
+      item.description += " · baseline";
+      if (!item.iconPath) item.iconPath = new vscode.ThemeIcon("target");
+    }
+    if (isPinned) {
+      item.description += " · pinned";
+      if (!item.iconPath) item.iconPath = new vscode.ThemeIcon("pinned");
+    }
+    if (note) item.description += " · note";
+
+    // Rich tooltip with full details (including label). Left untrusted: it
+    // has no links of its own, and notes and labels are free text
+    const md = new vscode.MarkdownString(undefined, true);
+    md.appendMarkdown(
+      [
+        `**Snapshot: ${s.label ?? s.id}**${isCurrent ? " — _(current)_" : ""}`,
+        s.label !== String(s.id) ? `**ID:** ${s.id}` : "",
+        `**Created:** ${s.created_at}`,
+        `**Branch:** ${s.branch ?? "?"}`,
+        s.head_commit ? `**HEAD:** ${s.head_commit.slice(0, 7)}` : "",
+        s.restored_from_snapshot_id
+          ? `**Branched-off From:** #${s.restored_from_snapshot_id}`
+          : "",
+        s.summary ? `**Summary:** ${s.summary}` : "",
+        s.id === baseline ? "_Baseline for gutter change markers_" : "",
+        isPinned ? "_Pinned_" : "",
+        ...outcomes.map(describeOutcome),
+      ]
+        .filter(Boolean)
+        .join("\n\n")
+    );
+    if (note) md.appendMarkdown(`\n\n---\n\n${note}`);
+    item.tooltip = md;
 
-        // Icon: ✓ for current snapshot
-        if (isCurrent) {
-          item.iconPath = new vscode.ThemeIcon("check");
+    return item;
+  }
+
+  async chooseGrouping() {
+    const hasCommits = this.store
+      .repoPaths()
+      .some((repo) => this.rowsFor(repo).some((s) => !!s.head_commit));
+    const mode = await pickGrouping(
+      this.store.getTimelineGrouping(),
+      hasCommits
+    );
+    if (!mode) return;
+    await this.store.setTimelineGrouping(mode);
+    this._onDidChangeTreeData.fire();
+  }
+
+  // ---------- Filtering ----------
+
+  private visibleRows(repo: string): SnapshotRow[] {
+    const { snapshots, pathIds } = this.stateFor(repo);
+    if (!isFilterActive(this.filter)) return snapshots;
+    const repoId = this.store.repoIdForPath(repo);
+    const notes = this.store.getNotes(repoId);
+    const outcomes = this.filter.passing ? this.store.getOutcomes(repoId) : {};
+    const rows = snapshots.filter(
+      (s) =>
+        matchesFilter(s, this.filter, notes[s.id]) &&
+        (!pathIds || pathIds.has(s.id)) &&
+        (!this.filter.passing || outcomeState(outcomes[s.id]) === "passed")
+    );
+    // Newest first, so the last green snapshot is the first one left
+    return this.filter.passing === "last" ? rows.slice(0, 1) : rows;
+  }
+
+  /** Show only the newest snapshot whose builds and tests all passed. */
+  async showLastGreen() {
+    await this.setFilter({ passing: "last" });
+  }
+
+  private async computePathIds(repo: string) {
+    const state = this.repos.get(repo);
+    if (!state) return;
+    if (!this.filter.path) {
+      state.pathIds = null;
+      return;
+    }
+    const matches = pathMatcher(this.filter.path);
+    const byId = [...state.snapshots].sort((a, b) => a.id - b.id);
+    const ids = new Set<number>();
+    await vscode.window.withProgress(
+      {
+        location: { viewId: "gitcrumbs.timeline" },
+        title: "Scanning snapshots…",
+      },
+      async () => {
+        for (let i = 1; i < byId.length; i++) {
+          const changes = await this.touchIndex.changesBetween(
+            repo,
+            byId[i - 1].id,
+            byId[i].id
+          );
+          if (changes?.some((c) => matches(c.path))) ids.add(byId[i].id);
         }
+      }
+    );
+    state.pathIds = ids;
+  }
 
-        // Show created + branch in the description
-        item.description = `${s.created_at} · ${s.branch ?? "?"}`;
-
-        // Rich tooltip with full details (including label)
-        const md = new vscode.MarkdownString(undefined, true);
-        md.isTrusted = true;
-        md.appendMarkdown(
-          [
-            `**Snapshot: ${s.label ?? s.id}**${isCurrent ? " — _(current)_" : ""}`,
-            s.label !== String(s.id) ? `**ID:** ${s.id}` : "",
-            `**Created:** ${s.created_at}`,
-            `**Branch:** ${s.branch ?? "?"}`,
-            s.restored_from_snapshot_id
-              ? `**Branched-off From:** #${s.restored_from_snapshot_id}`
-              : "",
-            s.summary ? `**Summary:** ${s.summary}` : "",
-          ]
-            .filter(Boolean)
-            .join("\n\n")
-        );
-        item.tooltip = md;
+  private updateFilterDescription() {
+    if (this.view) this.view.description = describeFilter(this.filter);
+    void vscode.commands.executeCommand(
+      "setContext",
+      "gitcrumbs.timelineFiltered",
+      isFilterActive(this.filter)
+    );
+  }
 
-        return item;
-      })
+  async editFilter() {
+    const next = await promptFilter(this.filter);
+    if (!next) return;
+    await this.setFilter(next);
+  }
+
+  async clearFilter() {
+    await this.setFilter({});
+  }
+
+  private async setFilter(next: TimelineFilter) {
+    this.filter = next;
+    for (const repo of this.repos.keys()) await this.computePathIds(repo);
+    this.updateFilterDescription();
+    this._onDidChangeTreeData.fire();
+  }
+
+  /** Cursor snapshot of the active repository from the last `status`. */
+  get cursorId(): number | null {
+    return this.cursorFor(this.store.repoPath());
+  }
+
+  cursorFor(repo: string | undefined): number | null {
+    return this.stateFor(repo).currentId;
+  }
+
+  /** Snapshots of the active repository as last loaded, newest first. */
+  get rows(): readonly SnapshotRow[] {
+    return this.rowsFor(this.store.repoPath());
+  }
+
+  rowsFor(repo: string | undefined): readonly SnapshotRow[] {
+    return this.stateFor(repo).snapshots;
+  }
+
+  /** QuickPick over a repository's loaded snapshots (newest first). */
+  async pickSnapshot(
+    placeHolder: string,
+    repo = this.store.repoPath()
+  ): Promise<SnapshotRow | undefined> {
+    if (!repo) return undefined;
+    if (!this.rowsFor(repo).length) await this.refresh(repo);
+    const snapshots = this.rowsFor(repo);
+    if (!snapshots.length) {
+      vscode.window.showInformationMessage("Gitcrumbs: No snapshots yet.");
+      return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(
+      snapshots.map((s) => ({
+        label: s.label ?? `#${s.id}`,
+        description: `${s.created_at} · ${s.branch ?? "?"}`,
+        detail: s.summary ?? undefined,
+        row: s,
+      })),
+      { placeHolder, matchOnDescription: true, matchOnDetail: true }
     );
-    return Promise.resolve(items);
+    return picked?.row;
+  }
+
+  async setBaseline(item?: TimelineItem) {
+    const repo = this.repoFor(item);
+    if (!repo) return;
+    const id =
+      item?.snapshotId ??
+      (await this.pickSnapshot("Compare editors against which snapshot?", repo))
+        ?.id;
+    if (id === undefined) return;
+    await this.store.setBaseline(this.store.repoIdForPath(repo), id);
+    this._onDidChangeTreeData.fire();
   }
 
-  async snapshotNow() {
+  async clearBaseline() {
     const repo = this.store.repoPath();
     if (!repo) return;
+    await this.store.setBaseline(this.store.repoIdForPath(repo), undefined);
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Take a snapshot. With a label (automatic triggers) the new snapshot is
+   * renamed straight away; when the CLI created nothing because nothing
+   * changed, no existing snapshot is renamed. Resolves like takeSnapshot().
+   */
+  async snapshotNow(repo = this.store.repoPath(), label?: string) {
+    if (!repo) return undefined;
+    // An automatic snapshot while one is running would capture the same edits
+    const running = this.snapshotting.get(repo);
+    if (label && running) return running;
+    return this.takeSnapshot(repo, label);
+  }
+
+  /**
+   * Snapshot the working tree and resolve to the id of the snapshot that
+   * holds it: the new one, or the cursor snapshot when the CLI created
+   * nothing because nothing changed. Null if that can't be established.
+   */
+  async snapshotCurrent(repo: string, label?: string): Promise<number | null> {
+    const res = await this.takeSnapshot(repo, label);
+    if (!res.ok) return null;
+    return res.created?.id ?? this.cursorFor(repo);
+  }
+
+  /**
+   * Queue a snapshot behind any that is running, so it captures the
+   * working tree as it is now. With a label, only the snapshot this call
+   * created is renamed.
+   */
+  takeSnapshot(repo: string, label?: string): Promise<SnapshotResult> {
+    const prev = this.snapshotting.get(repo);
+    const next = (prev ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.runSnapshot(repo, label));
+    this.snapshotting.set(repo, next);
+    const done = () => {
+      if (this.snapshotting.get(repo) === next) this.snapshotting.delete(repo);
+    };
+    next.then(done, done);
+    return next;
+  }
+
+  /**
+   * Returns whether the CLI succeeded and the snapshot it created, if any
+   * (null when the working tree matched the cursor snapshot already).
+   */
+  private async runSnapshot(
+    repo: string,
+    label?: string
+  ): Promise<SnapshotResult> {
+    if (!this.rowsFor(repo).length) await this.refresh(repo);
+    const before = this.rowsFor(repo)[0]?.id ?? 0;
     const res = await this.cli.run(["snapshot"], repo);
-    if (res.code !== 0) return;
-    await this.refresh();
+    if (res.code !== 0) return { ok: false, created: null };
+    await this.refresh(repo);
+
+    const newest = this.rowsFor(repo)[0];
+    const created = newest && newest.id > before ? newest : null;
+    if (label && created) {
+      const renamed = await this.cli.run(
+        ["rename", String(created.id), label],
+        repo
+      );
+      if (renamed.code === 0) await this.refresh(repo);
+    }
+    return { ok: true, created };
+  }
+
+  // ---------- Restore / navigation with undo ----------
+
+  /**
+   * Snapshot the working tree before a move so it can be undone. Resolves
+   * to the snapshot id that holds the current state, null if there is none
+   * (turned off with `gitcrumbs.triggers.beforeRestore`, or the user chose
+   * to go ahead without it), or undefined to cancel the move. Undo always
+   * snapshots, since it purges.
+   */
+  private async safetySnapshot(
+    repo: string,
+    action: string
+  ): Promise<number | null | undefined> {
+    if (action !== "undo" && !triggerEnabled(repo, "beforeRestore"))
+      return null;
+    const id = await this.snapshotCurrent(
+      repo,
+      triggerLabel(`before ${action}`)
+    );
+    if (id !== null) return id;
+
+    const go = "Continue Without Undo";
+    const choice = await vscode.window.showWarningMessage(
+      `Gitcrumbs: Couldn't snapshot the working tree before ${action}. It can't be undone.`,
+      { modal: true },
+      go
+    );
+    return choice === go ? null : undefined;
+  }
+
+  /** Remember a finished move and offer to undo it. */
+  private async recordMove(
+    repo: string,
+    action: NavMove["action"],
+    undoTo: number | null,
+    message: string
+  ) {
+    if (undoTo === null) {
+      vscode.window.showInformationMessage(`Gitcrumbs: ${message}`);
+      return;
+    }
+    const repoId = this.store.repoIdForPath(repo);
+    const stack = this.store
+      .getNavStack(repoId)
+      .concat({ action, undoTo, at: Date.now() })
+      .slice(-MAX_UNDO);
+    await this.store.setNavStack(repoId, stack);
+    this.updateUndoContext();
+
+    void vscode.window
+      .showInformationMessage(`Gitcrumbs: ${message}`, "Undo")
+      .then((pick) => {
+        if (pick === "Undo") void this.undoLastMove(repo);
+      });
+  }
+
+  private updateUndoContext() {
+    void vscode.commands.executeCommand(
+      "setContext",
+      "gitcrumbs.canUndoRestore",
+      this.store
+        .repoPaths()
+        .some((r) => this.store.getNavStack(this.store.repoIdForPath(r)).length)
+    );
+  }
+
+  /**
+   * Put the working tree back as it was before the last restore/next/
+   * previous: restore the safety snapshot with purge, so files the move
+   * created are removed and untracked files come back. Edits made since
+   * the move are snapshotted first, so they are not lost either.
+   */
+  async undoLastMove(repoArg?: string) {
+    const repo =
+      repoArg ??
+      (await pickRepo(
+        this.store
+          .repoPaths()
+          .filter(
+            (r) => this.store.getNavStack(this.store.repoIdForPath(r)).length
+          ),
+        "Undo the last restore in which repository?"
+      ));
+    if (!repo) {
+      vscode.window.showInformationMessage("Gitcrumbs: Nothing to undo.");
+      return;
+    }
+    const repoId = this.store.repoIdForPath(repo);
+    const stack = this.store.getNavStack(repoId);
+    const move = stack[stack.length - 1];
+    if (!move) {
+      vscode.window.showInformationMessage("Gitcrumbs: Nothing to undo.");
+      return;
+    }
+
+    // Undo purges, so keep whatever was edited since the move
+    if ((await this.safetySnapshot(repo, "undo")) === undefined) return;
+    const res = await this.cli.run(
+      ["restore", String(move.undoTo), "--purge"],
+      repo
+    );
+    if (res.code !== 0) {
+      await this.cli.showError(res, `Failed to undo the last ${move.action}.`);
+      return;
+    }
+    await this.store.setNavStack(repoId, stack.slice(0, -1));
+    this.updateUndoContext();
+    await this.refresh(repo);
+    vscode.window.showInformationMessage(
+      `Gitcrumbs: Undid ${move.action}; the working tree is back at snapshot #${move.undoTo}.`
+    );
   }
 
   async restore(item?: TimelineItem) {
@@ -131,37 +659,86 @@ export class TimelineTreeView
           s.trim().length ? undefined : "Enter an ID or label",
       }));
     if (!id) return;
-    const purge = vscode.workspace
-      .getConfiguration("gitcrumbs")
-      .get<boolean>("restore.purgeDefault", false);
-    const repo = this.store.repoPath();
+    const repo = this.repoFor(item);
     if (!repo) return;
-    const args = ["restore", String(id)].concat(
-      purge ? ["--purge"] : ["--no-purge"]
+
+    const snapshotId = this.resolveId(repo, String(id));
+    if (snapshotId === null) {
+      vscode.window.showErrorMessage(
+        `Gitcrumbs: No snapshot with ID or label '${id}'.`
+      );
+      return;
+    }
+    const name = item ? String(item.label) : String(id);
+    const choice = await confirmRestore(
+      this.cli,
+      this.client,
+      repo,
+      snapshotId,
+      name
+    );
+    if (!choice) return;
+
+    const undoTo = await this.safetySnapshot(repo, "restore");
+    if (undoTo === undefined) return;
+    const args = ["restore", String(snapshotId)].concat(
+      choice.purge ? ["--purge"] : ["--no-purge"]
     );
     const res = await this.cli.run(args, repo);
-    if (res.code !== 0) return;
-    await this.refresh();
+    if (res.code !== 0) {
+      // Shows the safety snapshot, which is all that's left of the attempt
+      await this.refresh(repo);
+      await this.cli.showError(res, `Failed to restore snapshot ${name}.`);
+      return;
+    }
+    await this.refresh(repo);
+    await this.recordMove(
+      repo,
+      "restore",
+      undoTo,
+      `Restored snapshot ${name}.`
+    );
+  }
+
+  /** Map user input (ID or label) to a snapshot ID from the loaded timeline. */
+  private resolveId(repo: string, input: string): number | null {
+    const trimmed = input.trim();
+    const byLabel = this.rowsFor(repo).find((s) => s.label === trimmed);
+    if (byLabel) return byLabel.id;
+    return /^\d+$/.test(trimmed) ? Number(trimmed) : null;
   }
 
   async next() {
-    const repo = this.store.repoPath();
-    if (!repo) return;
-    const r = await this.cli.run(["next"], repo);
-    if (r.code !== 0) return;
-    await this.refresh();
+    await this.step("next");
   }
 
   async previous() {
+    await this.step("previous");
+  }
+
+  private async step(action: "next" | "previous") {
     const repo = this.store.repoPath();
     if (!repo) return;
-    const r = await this.cli.run(["previous"], repo);
-    if (r.code !== 0) return;
-    await this.refresh();
+    const undoTo = await this.safetySnapshot(repo, action);
+    if (undoTo === undefined) return;
+    const r = await this.cli.run([action], repo);
+    if (r.code !== 0) {
+      await this.refresh(repo);
+      await this.cli.showError(r, `Failed to move to the ${action} snapshot.`);
+      return;
+    }
+    await this.refresh(repo);
+    const cursor = this.cursorFor(repo);
+    await this.recordMove(
+      repo,
+      action,
+      undoTo,
+      `Moved to ${action} snapshot${cursor !== null ? ` #${cursor}` : ""}.`
+    );
   }
 
   async rename(item?: TimelineItem) {
-    const repo = this.store.repoPath();
+    const repo = this.repoFor(item);
     if (!repo) return;
 
     let existingIdentifier: string | undefined;
@@ -202,111 +779,275 @@ export class TimelineTreeView
     vscode.window.showInformationMessage(
       `Gitcrumbs: Renamed snapshot ${existingIdentifier} to '${newLabel.trim()}'.`
     );
-    await this.refresh();
+    await this.refresh(repo);
   }
 
-  // ---------- Parse helpers ----------
-  private parseCurrentIdFromStatus(text: string): number | null {
-    // Expect lines like: "Cursor snapshot id: 12"
-    const m = text.match(/Cursor snapshot id:\s*(\d+)/i);
-    return m ? Number(m[1]) : null;
+  // ---------- Pins & notes ----------
+
+  /** Redraw without reloading, e.g. after a note was saved. */
+  redraw() {
+    this._onDidChangeTreeData.fire();
   }
 
-  private parseTimelineFromCli(text: string): SnapshotRow[] {
-    const rows: SnapshotRow[] = [];
+  /** Pin or unpin the clicked snapshot, or every selected one. */
+  async setPinned(
+    pinned: boolean,
+    item?: TimelineItem,
+    selected?: readonly unknown[]
+  ) {
+    const items = (selected?.length ? selected : item ? [item] : []).filter(
+      (i): i is TimelineItem => i instanceof TimelineItem
+    );
+    if (!items.length) {
+      const repo = this.store.repoPath();
+      const row = await this.pickSnapshot(
+        pinned ? "Pin which snapshot?" : "Unpin which snapshot?",
+        repo
+      );
+      if (!repo || !row) return;
+      await this.store.setPinned(
+        this.store.repoIdForPath(repo),
+        row.id,
+        pinned
+      );
+    }
+    for (const it of items) {
+      const repo = this.repoFor(it);
+      if (!repo) continue;
+      await this.store.setPinned(
+        this.store.repoIdForPath(repo),
+        it.snapshotId,
+        pinned
+      );
+    }
+    this._onDidChangeTreeData.fire();
+  }
 
-    // Keep only content lines that start with a vertical border (│ or |)
-    const lines = text.split(/\r?\n/).filter((l) => /^\s*[│|]/.test(l));
-    if (!lines.length) return rows;
+  // ---------- Deleting & pruning ----------
 
-    // #, Label, Created, Branch, Summary, Resumed-From
-    const grab6 = (line: string): string[] | null => {
-      const m = line.match(
-        /^\s*[│|]\s*(.*?)\s*[│|]\s*(.*?)\s*[│|]\s*(.*?)\s*[│|]\s*(.*?)\s*[│|]\s*(.*?)\s*[│|]\s*(.*?)\s*[│|]\s*$/
+  /** Snapshots cleanup never removes: cursor, baseline and pinned ones. */
+  private protectedIds(repo: string): Set<number> {
+    const ids = new Set(this.store.getPinned(this.store.repoIdForPath(repo)));
+    const { currentId } = this.stateFor(repo);
+    if (currentId !== null) ids.add(currentId);
+    const baseline = this.store.getBaseline(this.store.repoIdForPath(repo));
+    if (baseline !== undefined) ids.add(baseline);
+    return ids;
+  }
+
+  /** Delete the clicked snapshot, or every selected one (multi-select). */
+  async deleteSnapshots(item?: TimelineItem, selected?: readonly unknown[]) {
+    let items = (selected?.length ? selected : item ? [item] : []).filter(
+      (i): i is TimelineItem => i instanceof TimelineItem
+    );
+    if (!items.length) {
+      const repo = this.store.repoPath();
+      const row = await this.pickSnapshot("Delete which snapshot?", repo);
+      if (!repo || !row) return;
+      items = [
+        new TimelineItem(row.label ?? `#${row.id}`, row.id, row.label, repo),
+      ];
+    }
+
+    const byRepo = new Map<string, SnapshotRow[]>();
+    let skippedCurrent = false;
+    for (const it of items) {
+      const repo = this.repoFor(it);
+      if (!repo) continue;
+      if (it.snapshotId === this.cursorFor(repo)) {
+        skippedCurrent = true;
+        continue;
+      }
+      const row = this.rowsFor(repo).find((s) => s.id === it.snapshotId);
+      if (row) byRepo.set(repo, [...(byRepo.get(repo) ?? []), row]);
+    }
+    if (skippedCurrent) {
+      vscode.window.showWarningMessage(
+        "Gitcrumbs: The current snapshot can't be deleted; it was left out."
       );
-      return m ? m.slice(1).map((s) => s.trim()) : null;
-    };
+    }
 
-    type Building = {
-      id: number;
-      label?: string | null;
-      createdDateTime?: string;
-      branchParts: string[];
-      summaryParts: string[];
-      resumed?: number | null;
-    };
-    let cur: Building | null = null;
-
-    const looksDateTime = (s: string) =>
-      /^\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}$/.test(s);
-
-    const flush = () => {
-      if (!cur) return;
-      const created_at = cur.createdDateTime ?? "";
-      const branch = cur.branchParts.join(" ").trim() || null;
-      const summary =
-        cur.summaryParts.join(" ").replace(/\s+/g, " ").trim() || null;
-      rows.push({
-        id: cur.id,
-        label: cur.label ?? null,
-        created_at,
-        branch,
-        summary,
-        restored_from_snapshot_id: cur.resumed ?? null,
-      });
-      cur = null;
-    };
+    const rows = [...byRepo.values()].flat();
+    if (!rows.length) return;
+    const del = "Delete";
+    const choice = await vscode.window.showWarningMessage(
+      rows.length === 1
+        ? `Delete snapshot ${rows[0].label ?? `#${rows[0].id}`}?`
+        : `Delete ${rows.length} snapshots?`,
+      { modal: true, detail: `${listRows(rows)}\n\nThis cannot be undone.` },
+      del
+    );
+    if (choice !== del) return;
 
-    for (const line of lines) {
-      const cells = grab6(line);
-      if (!cells) continue;
-      const [c1, c2, c3, c4, c5, c6] = cells;
-
-      if (/^\d+$/.test(c1)) {
-        // New logical row
-        flush();
-        cur = {
-          id: Number(c1),
-          label: c2 || null,
-          branchParts: [],
-          summaryParts: [],
-          resumed: null,
-        };
-
-        if (c3 && looksDateTime(c3)) {
-          cur.createdDateTime = c3;
-        } else if (c3) {
-          // Be tolerant: store whatever we got
-          cur.createdDateTime = c3;
-        }
+    for (const [repo, repoRows] of byRepo) {
+      await this.deleteIds(
+        repo,
+        repoRows.map((r) => r.id)
+      );
+    }
+  }
 
-        if (c4) cur.branchParts.push(c4);
-        if (c5) cur.summaryParts.push(c5);
-        if (/^\d+$/.test(c6)) cur.resumed = Number(c6);
+  /**
+   * Apply the retention rules (settings under `gitcrumbs.retention`) after
+   * showing a dry-run summary. Scheduled runs first ask through a
+   * notification so they never interrupt with a modal.
+   */
+  async prune(repoArg?: string, scheduled = false) {
+    const repos = repoArg ? [repoArg] : this.store.repoPaths();
+    for (const repo of repos) {
+      const name = repoDisplayName(repo);
+      if (!this.rowsFor(repo).length) await this.refresh(repo);
+      const plan = planRetention(
+        this.rowsFor(repo),
+        readRetentionRules(),
+        this.protectedIds(repo)
+      );
+      await this.store.setLastPrune(this.store.repoIdForPath(repo), Date.now());
+
+      if (!plan.remove.length) {
+        if (!scheduled)
+          vscode.window.showInformationMessage(
+            `Gitcrumbs: Nothing to prune in ${name}.`
+          );
         continue;
       }
 
-      // Continuation line (unlikely now, but keep it semi-robust)
-      if (!cur) continue;
-      if (c3 && !cur.createdDateTime) cur.createdDateTime = c3;
-      if (c4) cur.branchParts.push(c4);
-      if (c5) cur.summaryParts.push(c5);
-      if (/^\d+$/.test(c6)) cur.resumed = Number(c6);
+      if (scheduled) {
+        const review = "Review…";
+        const pick = await vscode.window.showInformationMessage(
+          `Gitcrumbs: Retention rules would delete ${plan.remove.length} old snapshots in ${name}.`,
+          review
+        );
+        if (pick !== review) continue;
+      }
+
+      const doPrune = "Prune";
+      const choice = await vscode.window.showWarningMessage(
+        `Prune ${plan.remove.length} snapshots in ${name}?`,
+        {
+          modal: true,
+          detail: `${describePlan(plan)}\n\nTo be deleted:\n${listRows(
+            plan.remove
+          )}`,
+        },
+        doPrune
+      );
+      if (choice !== doPrune) continue;
+      await this.deleteIds(
+        repo,
+        plan.remove.map((r) => r.id)
+      );
     }
+  }
 
-    flush();
-    return rows;
+  /** Run `delete` per id, stopping at the first failure. */
+  private async deleteIds(repo: string, ids: number[]) {
+    let deleted = 0;
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Gitcrumbs: Deleting snapshots in ${repoDisplayName(repo)}…`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        for (const id of ids) {
+          if (token.isCancellationRequested) break;
+          progress.report({
+            message: `#${id}`,
+            increment: 100 / ids.length,
+          });
+          const res = await this.cli.run(["delete", String(id)], repo);
+          if (res.code !== 0) {
+            await this.cli.showError(
+              res,
+              /no such command/i.test(res.stderr + res.stdout)
+                ? "Gitcrumbs: Your gitcrumbs CLI can't delete snapshots. Please update it."
+                : `Failed to delete snapshot #${id}.`
+            );
+            break;
+          }
+          deleted++;
+        }
+      }
+    );
+
+    const repoId = this.store.repoIdForPath(repo);
+    const gone = ids.slice(0, deleted);
+    const baseline = this.store.getBaseline(repoId);
+    if (baseline !== undefined && gone.includes(baseline))
+      await this.store.setBaseline(repoId, undefined);
+    for (const id of gone) {
+      await this.store.setPinned(repoId, id, false);
+      await this.store.setNote(repoId, id, "");
+      await this.store.setOutcome(repoId, id, null);
+    }
+    if (deleted)
+      vscode.window.showInformationMessage(
+        `Gitcrumbs: Deleted ${deleted} snapshot${deleted === 1 ? "" : "s"}.`
+      );
+    await this.refresh(repo);
   }
 }
 
+const MAX_LISTED = 12;
+const MAX_UNDO = 20;
+
+export type SnapshotResult = { ok: boolean; created: SnapshotRow | null };
+
+function readRetentionRules(): RetentionRules {
+  const cfg = vscode.workspace.getConfiguration("gitcrumbs.retention");
+  return {
+    keepAllHours: cfg.get<number>("keepAllHours", 24),
+    hourlyDays: cfg.get<number>("hourlyDays", 7),
+    dailyDays: cfg.get<number>("dailyDays", 30),
+    keepLabelled: cfg.get<boolean>("keepLabelled", true),
+  };
+}
+
+function listRows(rows: readonly SnapshotRow[]): string {
+  const shown = rows
+    .slice(0, MAX_LISTED)
+    .map((s) => `  ${s.label ?? `#${s.id}`} · ${s.created_at}`);
+  if (rows.length > MAX_LISTED)
+    shown.push(`  …and ${rows.length - MAX_LISTED} more`);
+  return shown.join("\n");
+}
+
 export class TimelineItem extends vscode.TreeItem {
   constructor(
     label: string,
     public readonly snapshotId: number,
-    public readonly snapshotLabel: string | null
+    public readonly snapshotLabel: string | null,
+    public readonly repoPath?: string
   ) {
     super(label, vscode.TreeItemCollapsibleState.None);
     this.contextValue = "gitcrumbs.timeline.item";
     this.tooltip = `Right-click for options`;
   }
 }
+
+class TimelineGroupItem extends vscode.TreeItem {
+  constructor(
+    public readonly repoPath: string,
+    key: string,
+    public readonly rows: SnapshotRow[],
+    span: string,
+    expanded: boolean,
+    containsCurrent: boolean
+  ) {
+    super(
+      key,
+      expanded
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    this.id = `gitcrumbs.timeline.group:${repoPath}:${key}`;
+    this.description = `${rows.length} snapshot${rows.length === 1 ? "" : "s"}${
+      span ? ` · ${span}` : ""
+    }`;
+    this.contextValue = "gitcrumbs.timeline.group";
+    this.iconPath = new vscode.ThemeIcon(
+      containsCurrent ? "folder-active" : "folder"
+    );
+  }
+}
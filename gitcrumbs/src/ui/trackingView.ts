@@ -1,17 +1,164 @@
 import * as vscode from "vscode";
+import { Store } from "../state/store";
+import { TrackRunner, TrackerSet, TrackerState } from "../infra/trackRunner";
+import { RepoItem } from "./repoItem";
+
+const STATE_LABELS: Record<TrackerState, string> = {
+  running: "Tracking",
+  restarting: "Restarting…",
+  failed: "Failed",
+  stopped: "Stopped",
+};
+
+const STATE_ICONS: Record<TrackerState, vscode.ThemeIcon> = {
+  running: new vscode.ThemeIcon(
+    "circle-filled",
+    new vscode.ThemeColor("testing.iconPassed")
+  ),
+  restarting: new vscode.ThemeIcon("sync~spin"),
+  failed: new vscode.ThemeIcon(
+    "warning",
+    new vscode.ThemeColor("problemsWarningIcon.foreground")
+  ),
+  stopped: new vscode.ThemeIcon("circle-outline"),
+};
+
+/**
+ * Live dashboard for the background trackers: state, process details,
+ * session counters and a countdown to the next automatic snapshot.
+ */
+export class TrackingView
+  implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private subs: vscode.Disposable[] = [];
+  private ticker: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly store: Store,
+    private readonly trackers: TrackerSet
+  ) {
+    this.subs.push(
+      trackers.onStateChanged(() => this.refresh()),
+      trackers.onActivity(() => this.refresh())
+    );
+  }
+
+  refresh() {
+    this.updateTicker();
+    this._onDidChangeTreeData.fire();
+  }
 
-export class TrackingView implements vscode.TreeDataProvider<vscode.TreeItem> {
   getTreeItem(el: vscode.TreeItem) {
     return el;
   }
 
-  getChildren(): vscode.TreeItem[] {
-    const headerText =
-      "You can Start or Stop Tracking your file changes here.";
-    const header = new vscode.TreeItem(
-      headerText,
-      vscode.TreeItemCollapsibleState.None
+  getChildren(el?: vscode.TreeItem): vscode.TreeItem[] {
+    if (el instanceof RepoItem)
+      return this.details(this.trackers.get(el.repoPath));
+    if (el) return [];
+
+    const repos = this.store.repoPaths();
+    if (!repos.length) {
+      return [
+        new vscode.TreeItem(
+          "Open a repository to start tracking.",
+          vscode.TreeItemCollapsibleState.None
+        ),
+      ];
+    }
+    if (repos.length === 1) return this.details(this.trackers.get(repos[0]));
+    return repos.map(
+      (r) => new RepoItem(r, STATE_LABELS[this.trackers.get(r).state])
+    );
+  }
+
+  private details(runner: TrackRunner): vscode.TreeItem[] {
+    const items: vscode.TreeItem[] = [new TrackerStateItem(runner)];
+    const info = (label: string, value: string, icon: string) =>
+      new InfoItem(runner.repo, label, value, icon);
+
+    items.push(info("Repository", runner.repo, "repo"));
+    if (runner.pid !== undefined)
+      items.push(info("PID", String(runner.pid), "pulse"));
+    if (runner.isRunning && runner.startedAt)
+      items.push(info("Started", formatTime(runner.startedAt), "clock"));
+    items.push(
+      info(
+        "Last snapshot",
+        runner.lastSnapshotAt ? formatTime(runner.lastSnapshotAt) : "—",
+        "device-camera"
+      ),
+      info("Snapshots this session", String(runner.sessionSnapshots), "history")
     );
-    return [header];
+
+    const due = runner.nextSnapshotAt();
+    if (due !== null && runner.pendingSince !== null) {
+      const secs = Math.ceil((due - Date.now()) / 1000);
+      items.push(
+        info("Next snapshot", secs > 0 ? `in ${secs}s` : "due now", "watch")
+      );
+      items[items.length - 1].tooltip = `Changes pending since ${formatTime(
+        runner.pendingSince
+      )}. The tracker snapshots after ${
+        this.store.config().snapshotAfter
+      }s without further changes.`;
+    }
+    return items;
+  }
+
+  /** Re-render every second while any countdown is visible. */
+  private updateTicker() {
+    const counting = this.trackers
+      .all()
+      .some((r) => r.nextSnapshotAt() !== null);
+    if (counting && !this.ticker) {
+      this.ticker = setInterval(() => this.refresh(), 1000);
+    } else if (!counting && this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+  }
+
+  dispose() {
+    if (this.ticker) clearInterval(this.ticker);
+    this.ticker = null;
+    for (const d of this.subs.splice(0)) d.dispose();
+  }
+}
+
+function formatTime(ms: number): string {
+  const d = new Date(ms);
+  const sameDay = d.toDateString() === new Date().toDateString();
+  return sameDay ? d.toLocaleTimeString() : d.toLocaleString();
+}
+
+class TrackerStateItem extends vscode.TreeItem {
+  readonly repoPath: string;
+
+  constructor(runner: TrackRunner) {
+    super(STATE_LABELS[runner.state], vscode.TreeItemCollapsibleState.None);
+    this.repoPath = runner.repo;
+    this.iconPath = STATE_ICONS[runner.state];
+    this.contextValue = `gitcrumbs.tracker.${runner.state}`;
+    this.tooltip =
+      runner.state === "failed"
+        ? "The tracker kept exiting and was stopped. Open the tracker log for details."
+        : undefined;
+  }
+}
+
+class InfoItem extends vscode.TreeItem {
+  constructor(
+    readonly repoPath: string,
+    label: string,
+    value: string,
+    icon: string
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.None);
+    this.description = value;
+    this.iconPath = new vscode.ThemeIcon(icon);
   }
 }
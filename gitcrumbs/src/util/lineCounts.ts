@@ -0,0 +1,72 @@
+import { lineStats } from "./lineDiff";
+import type { Change } from "./types";
+import type { DiffSort } from "../ui/diffStats";
+
+/** Lines added/removed in one file, or "binary" when lines mean nothing. */
+export type LineCount = { added: number; removed: number } | "binary";
+
+/**
+ * Lines added/removed by one change, given the file's text before and
+ * after (empty on the side where it doesn't exist). Text containing NUL
+ * is taken as binary, like git does.
+ */
+export function countChange(
+  change: Change,
+  before: string,
+  after: string
+): LineCount {
+  if (before.includes("\0") || after.includes("\0")) return "binary";
+  return change.kind === "A"
+    ? { added: countOf(after), removed: 0 }
+    : change.kind === "D"
+    ? { added: 0, removed: countOf(before) }
+    : lineStats(before, after);
+}
+
+/** Lines in a whole file, not counting the empty string after a final newline. */
+export function countOf(text: string): number {
+  if (!text) return 0;
+  return text.split(/\r?\n/).length - (/\r?\n$/.test(text) ? 1 : 0);
+}
+
+/** Sum of the counted files; binaries add nothing. */
+export function totalOf(counts: (LineCount | undefined)[]): {
+  added: number;
+  removed: number;
+} {
+  let added = 0,
+    removed = 0;
+  for (const c of counts) {
+    if (!c || c === "binary") continue;
+    added += c.added;
+    removed += c.removed;
+  }
+  return { added, removed };
+}
+
+/** "+12 −3", "binary", or "" while not counted yet. */
+export function formatCount(c: LineCount | undefined): string {
+  if (!c) return "";
+  if (c === "binary") return "binary";
+  return `+${c.added} −${c.removed}`;
+}
+
+export function churnOf(c: LineCount | undefined): number {
+  return !c || c === "binary" ? 0 : c.added + c.removed;
+}
+
+/**
+ * Files by path; for "churn", the most lines changed first, with files
+ * not counted yet (and binaries) last. Ties stay in path order.
+ */
+export function sortChanges(
+  changes: readonly Change[],
+  mode: DiffSort,
+  counts: ReadonlyMap<string, LineCount>
+): Change[] {
+  const byPath = [...changes].sort((x, y) => x.path.localeCompare(y.path));
+  if (mode !== "churn") return byPath;
+  return byPath.sort(
+    (x, y) => churnOf(counts.get(y.path)) - churnOf(counts.get(x.path))
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Minimal line diff (Myers O(ND)) used for hunk actions and line stats.
+ * We only need hunks, not a pretty patch, so there is no context handling.
+ */
+
+export type Hunk = {
+  aStart: number; // 0-based line index in `a`
+  aLines: string[];
+  bStart: number; // 0-based line index in `b`
+  bLines: string[];
+};
+
+// Past this many edits we stop searching and report one big hunk; the
+// result is still correct, just coarser.
+const MAX_EDIT_DISTANCE = 4000;
+
+export function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+export function diffLines(a: string[], b: string[]): Hunk[] {
+  // Common prefix/suffix never take part in a hunk.
+  let pre = 0;
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) pre++;
+  let suf = 0;
+  while (
+    suf < a.length - pre &&
+    suf < b.length - pre &&
+    a[a.length - 1 - suf] === b[b.length - 1 - suf]
+  )
+    suf++;
+
+  const A = a.slice(pre, a.length - suf);
+  const B = b.slice(pre, b.length - suf);
+  if (!A.length && !B.length) return [];
+
+  const ops = myers(A, B);
+  if (!ops) return [{ aStart: pre, aLines: A, bStart: pre, bLines: B }];
+
+  const hunks: Hunk[] = [];
+  let x = 0,
+    y = 0;
+  let cur: Hunk | null = null;
+  for (const op of ops) {
+    if (op === "=") {
+      if (cur) hunks.push(cur);
+      cur = null;
+      x++;
+      y++;
+      continue;
+    }
+    cur ??= { aStart: pre + x, aLines: [], bStart: pre + y, bLines: [] };
+    if (op === "-") cur.aLines.push(A[x++]);
+    else cur.bLines.push(B[y++]);
+  }
+  if (cur) hunks.push(cur);
+  return hunks;
+}
+
+/** Count of added/removed lines going from `a` to `b`. */
+export function lineStats(a: string, b: string): { added: number; removed: number } {
+  let added = 0,
+    removed = 0;
+  for (const h of diffLines(splitLines(a), splitLines(b))) {
+    added += h.bLines.length;
+    removed += h.aLines.length;
+  }
+  return { added, removed };
+}
+
+type Op = "=" | "-" | "+";
+
+function myers(a: string[], b: string[]): Op[] | null {
+  const n = a.length,
+    m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const off = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-(d+1)..d+1] as it was *before* step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(off - d - 1, off + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[off + k - 1] < v[off + k + 1])
+          ? v[off + k + 1]
+          : v[off + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[off + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): Op[] {
+  const ops: Op[] = [];
+  let x = n,
+    y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push("=");
+      x--;
+      y--;
+    }
+    if (d > 0) ops.push(x === prevX ? "+" : "-");
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
@@ -0,0 +1,189 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import type { Cli } from "../infra/cli";
+import type { GitcrumbsClient } from "../infra/client";
+import type { Store } from "../state/store";
+import type { TimelineTreeView } from "../ui/timelineTree";
+import { git } from "../infra/git";
+import { writeTree } from "./snapshotCommit";
+import { pickRepo, repoDisplayName } from "./selectRepo";
+import { targetName } from "./snapshotDocs";
+import type { DiffTarget } from "./types";
+
+type Deps = {
+  cli: Cli;
+  client: GitcrumbsClient;
+  store: Store;
+  timeline: TimelineTreeView;
+  getPair: () => { a?: DiffTarget; b?: DiffTarget; repo?: string };
+};
+
+/**
+ * Unified diff from A to B over every changed file, in `git diff --binary`
+ * format so `git apply` (and "Apply Patch as New Snapshot") can replay it
+ * exactly, binary files and modes included.
+ */
+async function buildPatch(
+  deps: Deps,
+  repo: string,
+  a: DiffTarget,
+  b: DiffTarget
+): Promise<string> {
+  const treeA = await writeTree(deps, repo, a);
+  const treeB = await writeTree(deps, repo, b);
+  const res = await git(
+    ["diff", "--binary", "--full-index", treeA, treeB],
+    repo
+  );
+  if (res.code !== 0) {
+    throw new Error(res.stderr.trim() || `git diff exited with ${res.code}`);
+  }
+  if (!res.stdout) return "";
+  // git apply skips anything before the first "diff --git" line
+  return (
+    `Gitcrumbs patch for ${repoDisplayName(repo)}: ` +
+    `${targetName(a)} → ${targetName(b)}\n\n${res.stdout}`
+  );
+}
+
+/** Export the Diff view's A↔B changes as one patch, to a file or the clipboard. */
+export async function exportDiffPatch(deps: Deps) {
+  const { a, b, repo } = deps.getPair();
+  if (!repo || a === undefined || b === undefined) {
+    vscode.window.showInformationMessage("Select Snapshot A and B first.");
+    return;
+  }
+
+  let patch: string;
+  try {
+    patch = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Gitcrumbs: Building patch…",
+      },
+      () => buildPatch(deps, repo, a, b)
+    );
+  } catch (e: any) {
+    vscode.window.showErrorMessage(
+      `Gitcrumbs: Could not build the patch. ${e?.message ?? e}`
+    );
+    return;
+  }
+  if (!patch) {
+    vscode.window.showInformationMessage(
+      "Gitcrumbs: No differences between A and B."
+    );
+    return;
+  }
+
+  const dest = await vscode.window.showQuickPick(
+    [
+      { label: "$(save) Save to File…", toFile: true },
+      { label: "$(copy) Copy to Clipboard", toFile: false },
+    ],
+    { placeHolder: `Export patch ${targetName(a)} → ${targetName(b)}` }
+  );
+  if (!dest) return;
+
+  if (!dest.toFile) {
+    await vscode.env.clipboard.writeText(patch);
+    vscode.window.showInformationMessage(
+      "Gitcrumbs: Patch copied to the clipboard."
+    );
+    return;
+  }
+
+  const fileName = `gitcrumbs-${targetName(a)}-${targetName(b)}.patch`
+    .replace(/\s+/g, "-")
+    .toLowerCase();
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(repo, fileName)),
+    filters: { Patch: ["patch", "diff"] },
+  });
+  if (!uri) return;
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(patch, "utf8"));
+  vscode.window.showInformationMessage(
+    `Gitcrumbs: Saved patch to ${path.basename(uri.fsPath)}.`
+  );
+}
+
+/**
+ * Apply a patch file to the working tree and snapshot the result right
+ * away. `git apply` is all-or-nothing, so a patch that does not fit leaves
+ * the working tree untouched.
+ */
+export async function applyPatchAsSnapshot(target: unknown, deps: Deps) {
+  let file = target instanceof vscode.Uri ? target : undefined;
+  if (!file) {
+    file = (
+      await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { Patch: ["patch", "diff"] },
+        openLabel: "Apply Patch",
+      })
+    )?.[0];
+  }
+  if (!file) return;
+
+  const repo = await pickRepo(
+    deps.store.repoPaths(),
+    "Apply the patch to which repository?"
+  );
+  if (!repo) return;
+
+  const check = await git(["apply", "--check", file.fsPath], repo);
+  if (check.code !== 0) {
+    await deps.cli.showError(
+      check,
+      `Gitcrumbs: ${path.basename(file.fsPath)} does not apply cleanly.`
+    );
+    return;
+  }
+
+  const label = await vscode.window.showInputBox({
+    prompt: "Label for the new snapshot (leave empty for none)",
+    value: path.basename(file.fsPath).replace(/\.(patch|diff)$/i, ""),
+  });
+  if (label === undefined) return;
+
+  const applied = await git(["apply", file.fsPath], repo);
+  if (applied.code !== 0) {
+    await deps.cli.showError(applied, "Gitcrumbs: Failed to apply the patch.");
+    return;
+  }
+
+  const { ok, created } = await deps.timeline.takeSnapshot(
+    repo,
+    label.trim() || undefined
+  );
+  if (!ok) {
+    vscode.window.showErrorMessage(
+      "Gitcrumbs: The patch was applied, but taking a snapshot failed."
+    );
+    return;
+  }
+  if (!created) {
+    // Nothing new to snapshot, e.g. the patch's changes were already there
+    vscode.window.showInformationMessage(
+      `Gitcrumbs: Applied ${path.basename(
+        file.fsPath
+      )}, but the working tree already matched the current snapshot, so no snapshot was created.`
+    );
+    return;
+  }
+
+  const row = deps.timeline.rowsFor(repo).find((s) => s.id === created.id);
+  if (label.trim() && row?.label !== label.trim()) {
+    vscode.window.showWarningMessage(
+      `Gitcrumbs: Applied ${path.basename(file.fsPath)} as snapshot #${
+        created.id
+      }, but labelling it "${label.trim()}" failed.`
+    );
+    return;
+  }
+  vscode.window.showInformationMessage(
+    `Gitcrumbs: Applied ${path.basename(file.fsPath)} as snapshot ${
+      label.trim() || `#${created.id}`
+    }.`
+  );
+}
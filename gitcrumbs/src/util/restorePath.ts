@@ -0,0 +1,159 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import type { Cli } from "../infra/cli";
+import type { GitcrumbsClient } from "../infra/client";
+import type { Store } from "../state/store";
+import type { TimelineTreeView } from "../ui/timelineTree";
+import { snapshotBytes } from "./snapshotCommit";
+import { WORKING_TREE, type DiffTarget } from "./types";
+
+type Deps = {
+  cli: Cli;
+  client: GitcrumbsClient;
+  store: Store;
+  timeline: TimelineTreeView;
+};
+
+/** Repo-relative POSIX path for a workspace URI, or null if outside the repo. */
+export function relPathInRepo(uri: vscode.Uri, repo: string): string | null {
+  const rel = path.relative(repo, uri.fsPath);
+  if (!rel || rel.startsWith("..") || path.isAbsolute(rel)) return null;
+  return rel.split(path.sep).join("/");
+}
+
+/**
+ * Restore a single file or everything under a folder from one snapshot.
+ *
+ * Accepts a Diff view FileItem (restores from its A or B side) or an
+ * Explorer/editor URI (asks which snapshot). Contents come from `show-file`
+ * as raw bytes, so binary files survive, and are applied as one
+ * WorkspaceEdit, so a single Undo puts everything back. Files outside the
+ * chosen path are never touched.
+ */
+export async function restorePathFromSnapshot(target: unknown, deps: Deps) {
+  const anyTarget = target as any;
+  let repo: string | undefined;
+  let rel: string | null = null;
+  let candidates: DiffTarget[] = [];
+
+  if (typeof anyTarget?.relPath === "string") {
+    // Diff view FileItem
+    repo = anyTarget.repoPath ?? deps.store.repoPath();
+    rel = anyTarget.relPath;
+    candidates = [anyTarget.a, anyTarget.b].filter(
+      (t): t is number => typeof t === "number"
+    );
+  } else {
+    const uri =
+      target instanceof vscode.Uri
+        ? target
+        : vscode.window.activeTextEditor?.document.uri;
+    repo = uri && deps.store.repoForUri(uri);
+    if (uri && repo) rel = relPathInRepo(uri, repo);
+  }
+  if (!repo || !rel) {
+    vscode.window.showErrorMessage(
+      "Gitcrumbs: Pick a file or folder inside the repository to restore."
+    );
+    return;
+  }
+
+  let id: number | undefined;
+  if (candidates.length === 1) {
+    id = candidates[0] as number;
+  } else if (candidates.length > 1) {
+    const picked = await vscode.window.showQuickPick(
+      candidates.map((c) => ({ label: `Snapshot ${c}`, id: c as number })),
+      { placeHolder: `Restore ${rel} from which snapshot?` }
+    );
+    id = picked?.id;
+  } else {
+    id = (
+      await deps.timeline.pickSnapshot(`Restore ${rel} from snapshot…`, repo)
+    )?.id;
+  }
+  if (id === undefined) return;
+
+  // Working tree → snapshot, limited to the chosen path.
+  const { res, data } = await deps.client.diff(repo, WORKING_TREE, id);
+  if (!data) {
+    await deps.cli.showError(res, `Could not compare ${rel} with snapshot ${id}.`);
+    return;
+  }
+  const prefix = rel.replace(/\/+$/, "");
+  const changes = data.filter(
+    (c) => c.path === prefix || c.path.startsWith(`${prefix}/`)
+  );
+  if (!changes.length) {
+    vscode.window.showInformationMessage(
+      `Gitcrumbs: ${rel} already matches snapshot ${id}.`
+    );
+    return;
+  }
+
+  const toDelete = changes.filter((c) => c.kind === "D");
+  if (changes.length > 1 || toDelete.length) {
+    const written = changes.length - toDelete.length;
+    const choice = await vscode.window.showWarningMessage(
+      `Restore ${rel} from snapshot ${id}?`,
+      {
+        modal: true,
+        detail: [
+          written ? `${written} file(s) will be written.` : "",
+          toDelete.length
+            ? `${toDelete.length} file(s) not in the snapshot will be deleted.`
+            : "",
+        ]
+          .filter(Boolean)
+          .join("\n"),
+      },
+      "Restore"
+    );
+    if (choice !== "Restore") return;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  const replaced: vscode.TextDocument[] = [];
+  try {
+    for (const c of changes) {
+      const fileUri = vscode.Uri.file(path.join(repo, c.path));
+      if (c.kind === "D") {
+        edit.deleteFile(fileUri, { ignoreIfNotExists: true });
+        continue;
+      }
+      const bytes = await snapshotBytes(deps.cli, repo, id, c.path);
+      // Unsaved edits live in the editor buffer; replace them there so
+      // they aren't silently dropped by writing underneath.
+      const open = vscode.workspace.textDocuments.find(
+        (d) => d.uri.toString() === fileUri.toString()
+      );
+      if (open?.isDirty && !bytes.includes(0)) {
+        const all = new vscode.Range(
+          open.positionAt(0),
+          open.positionAt(open.getText().length)
+        );
+        edit.replace(fileUri, all, bytes.toString("utf8"));
+        replaced.push(open);
+      } else {
+        edit.createFile(fileUri, { overwrite: true, contents: bytes });
+      }
+    }
+  } catch (e: any) {
+    vscode.window.showErrorMessage(
+      `Gitcrumbs: Could not read ${rel} from snapshot ${id}. ${e?.message ?? e}`
+    );
+    return;
+  }
+
+  const ok = await vscode.workspace.applyEdit(edit);
+  if (!ok) {
+    vscode.window.showErrorMessage(`Gitcrumbs: Failed to restore ${rel}.`);
+    return;
+  }
+  // Replacing a dirty buffer doesn't touch the disk; save so the working
+  // tree matches the snapshot (Undo in the editor still reverts it).
+  await Promise.all(replaced.map((d) => d.save()));
+  vscode.window.showInformationMessage(
+    `Gitcrumbs: Restored ${rel} from snapshot ${id} (${changes.length} file(s)).`
+  );
+}
@@ -1,7 +1,7 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import { TimelineTreeView } from "../ui/timelineTree";
-import { TrackRunner } from "../infra/trackRunner";
+import { TrackRunner, TrackerSet } from "../infra/trackRunner";
 import { Cli } from "../infra/cli";
 import { ActionsView } from "../ui/actionsView";
 import { Store } from "../state/store";
@@ -75,9 +75,25 @@ export async function askToStartTrackingForRepo(
   }
 }
 
+/**
+ * Let the user choose one of the workspace's repositories. Skips the
+ * prompt when there is only one candidate.
+ */
+export async function pickRepo(
+  repos: string[],
+  placeHolder: string
+): Promise<string | undefined> {
+  if (repos.length <= 1) return repos[0];
+  const picked = await vscode.window.showQuickPick(
+    repos.map((r) => ({ label: repoDisplayName(r), description: r, repo: r })),
+    { placeHolder }
+  );
+  return picked?.repo;
+}
+
 export async function selectRepo(
   timelineView: TimelineTreeView,
-  trackRunner: TrackRunner,
+  trackers: TrackerSet,
   cli: Cli,
   actionsView: ActionsView,
   store: Store
@@ -85,6 +101,45 @@ export async function selectRepo(
   const cfg = vscode.workspace.getConfiguration("gitcrumbs");
   const saved = cfg.get<string>("repoPath");
 
+  // Multi-root: switch the active repository between the workspace
+  // folders. Writing `repoPath` would narrow Gitcrumbs to one folder and
+  // stop the other trackers, so only "Other Folder…" does that.
+  const folders = (vscode.workspace.workspaceFolders ?? []).map(
+    (f) => f.uri.fsPath
+  );
+  if (folders.length > 1 && !saved?.trim()) {
+    const active = store.repoPath();
+    const choice = await vscode.window.showQuickPick(
+      [
+        ...folders.map((r) => ({
+          label: repoDisplayName(r),
+          description: r === active ? `${r} · active` : r,
+          repo: r as string | undefined,
+        })),
+        {
+          label: "$(folder-opened) Other Folder…",
+          description: "Use only this folder",
+          repo: undefined,
+        },
+      ],
+      { placeHolder: "Which repository should commands act on?" }
+    );
+    if (!choice) return;
+    if (choice.repo) {
+      store.setActiveRepo(choice.repo);
+      actionsView.refresh();
+      await prepareRepo(
+        choice.repo,
+        timelineView,
+        trackers,
+        cli,
+        actionsView,
+        store
+      );
+      return;
+    }
+  }
+
   // Only set defaultUri if we have a valid existing path
   let defaultUri: vscode.Uri | undefined = undefined;
   if (saved) {
@@ -112,16 +167,35 @@ export async function selectRepo(
   const repoPath = picked[0].fsPath;
   const repoName = repoDisplayName(repoPath);
 
-  if (trackRunner.isRunning) {
+  const others = trackers.running().filter((r) => r.repo !== repoPath);
+  if (others.length) {
     vscode.window.showInformationMessage(
       `Gitcrumbs: Stopping the tracker before switching to ${repoName}.`
     );
-    trackRunner.stop();
+    for (const r of others) r.stop();
   }
 
   // Save immediately (so future open dialog defaults to this path)
   await cfg.update("repoPath", repoPath, vscode.ConfigurationTarget.Workspace);
+  store.setActiveRepo(repoPath);
   actionsView.refresh(); // update the "Repository: ..." label
+  await prepareRepo(repoPath, timelineView, trackers, cli, actionsView, store);
+}
+
+/**
+ * Get a freshly selected repository ready: offer `git init` if needed,
+ * initialise gitcrumbs, then ask about tracking.
+ */
+async function prepareRepo(
+  repoPath: string,
+  timelineView: TimelineTreeView,
+  trackers: TrackerSet,
+  cli: Cli,
+  actionsView: ActionsView,
+  store: Store
+) {
+  const repoName = repoDisplayName(repoPath);
+  const trackRunner = trackers.get(repoPath);
 
   // Branch 1: Not a Git repo → ask to init Git, then init gitcrumbs, then ask to start tracking
   if (!(await isGitRepo(repoPath))) {
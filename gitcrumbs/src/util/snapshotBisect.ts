@@ -0,0 +1,388 @@
+import * as vscode from "vscode";
+import { spawn } from "child_process";
+import type { Cli } from "../infra/cli";
+import type { Store } from "../state/store";
+import type { TimelineTreeView } from "../ui/timelineTree";
+import { triggerLabel } from "../infra/triggerLabels";
+import { pickRepo } from "./selectRepo";
+import { snapshotName } from "./snapshotCommit";
+import type { SnapshotRow } from "./types";
+
+type Deps = {
+  cli: Cli;
+  store: Store;
+  timeline: TimelineTreeView;
+};
+
+type Verdict = "good" | "bad" | "skip";
+
+/** How each candidate is tested; resolves to the exit code, if any. */
+type BisectTest = {
+  name: string;
+  run: (
+    repo: string,
+    token: vscode.CancellationToken
+  ) => Promise<number | undefined>;
+};
+
+// Same convention as `git bisect run`
+const SKIP_CODE = 125;
+const MAX_LISTED = 12;
+
+let log: vscode.OutputChannel | undefined;
+function bisectLog(): vscode.OutputChannel {
+  log ??= vscode.window.createOutputChannel("Gitcrumbs Bisect");
+  return log;
+}
+
+function verdictFor(code: number | undefined): Verdict {
+  if (code === undefined || code === SKIP_CODE) return "skip";
+  return code === 0 ? "good" : "bad";
+}
+
+function shellTest(command: string): BisectTest {
+  return {
+    name: command,
+    run: (repo, token) =>
+      new Promise((resolve) => {
+        const child = spawn(command, { cwd: repo, shell: true });
+        const cancel = token.onCancellationRequested(() => child.kill());
+        child.stdout.on("data", (b) => bisectLog().append(b.toString()));
+        child.stderr.on("data", (b) => bisectLog().append(b.toString()));
+        child.on("close", (code) => {
+          cancel.dispose();
+          resolve(code ?? undefined);
+        });
+        child.on("error", (e) => {
+          cancel.dispose();
+          bisectLog().appendLine(`Failed to run the command: ${e.message}`);
+          resolve(undefined);
+        });
+      }),
+  };
+}
+
+function taskTest(task: vscode.Task): BisectTest {
+  return {
+    name: `task ${task.name}`,
+    run: (_repo, token) =>
+      new Promise((resolve) => {
+        // Subscribe first: a quick task can end before executeTask resolves
+        let execution: vscode.TaskExecution | undefined;
+        const ended = new Map<vscode.TaskExecution, number | undefined>();
+        const finish = (code: number | undefined) => {
+          sub.dispose();
+          cancel.dispose();
+          resolve(code);
+        };
+        const sub = vscode.tasks.onDidEndTaskProcess((e) => {
+          if (!execution) ended.set(e.execution, e.exitCode);
+          else if (e.execution === execution) finish(e.exitCode);
+        });
+        const cancel = token.onCancellationRequested(() =>
+          execution?.terminate()
+        );
+        vscode.tasks.executeTask(task).then(
+          (exec) => {
+            execution = exec;
+            if (ended.has(exec)) finish(ended.get(exec));
+          },
+          (e: any) => {
+            bisectLog().appendLine(
+              `Failed to run the task: ${e?.message ?? e}`
+            );
+            finish(undefined);
+          }
+        );
+      }),
+  };
+}
+
+/**
+ * Choose the shell command or task to test with. The configured ones
+ * (`gitcrumbs.bisect.command` / `.task`) are listed first.
+ */
+async function pickTest(repo: string): Promise<BisectTest | undefined> {
+  const cfg = vscode.workspace.getConfiguration(
+    "gitcrumbs.bisect",
+    vscode.Uri.file(repo)
+  );
+  const command = cfg.get<string>("command", "").trim();
+  const taskName = cfg.get<string>("task", "").trim();
+  // Only process-based tasks report an exit code; custom executions don't
+  const tasks = (await vscode.tasks.fetchTasks()).filter(
+    (t) =>
+      t.execution instanceof vscode.ShellExecution ||
+      t.execution instanceof vscode.ProcessExecution
+  );
+
+  type Choice = vscode.QuickPickItem & {
+    make: () => Promise<BisectTest | undefined>;
+  };
+  const choices: Choice[] = [];
+  const configuredTask = taskName && tasks.find((t) => t.name === taskName);
+  if (configuredTask) {
+    choices.push({
+      label: `$(tools) ${configuredTask.name}`,
+      description: "configured task",
+      make: async () => taskTest(configuredTask),
+    });
+  }
+  if (command) {
+    choices.push({
+      label: `$(terminal) ${command}`,
+      description: "configured command",
+      make: async () => shellTest(command),
+    });
+  }
+  choices.push({
+    label: "$(terminal) Shell Command…",
+    make: async () => {
+      const typed = await vscode.window.showInputBox({
+        prompt: `Command to run in ${repo}; exit 0 = good, ${SKIP_CODE} = skip, anything else = bad`,
+        value: command,
+        validateInput: (v: string) =>
+          v.trim() ? undefined : "Enter a command",
+      });
+      return typed ? shellTest(typed.trim()) : undefined;
+    },
+  });
+  for (const t of tasks) {
+    if (t === configuredTask) continue;
+    choices.push({
+      label: `$(tools) ${t.name}`,
+      description: t.source,
+      make: async () => taskTest(t),
+    });
+  }
+
+  const picked = await vscode.window.showQuickPick(choices, {
+    placeHolder: "Test each snapshot with…",
+    matchOnDescription: true,
+  });
+  return picked?.make();
+}
+
+/**
+ * Binary-search the snapshots between a known-good and a known-bad one
+ * for the first bad snapshot, like `git bisect run`.
+ *
+ * Each candidate is restored with purge and tested; the exit code marks
+ * it good (0), bad, or untestable (125). The working tree is snapshotted
+ * before the first restore and put back afterwards, also when the bisect
+ * fails or is cancelled.
+ */
+export async function bisectSnapshots(deps: Deps) {
+  const repo = await pickRepo(
+    deps.store.repoPaths(),
+    "Bisect snapshots in which repository?"
+  );
+  if (!repo) return;
+
+  const good = await deps.timeline.pickSnapshot("Known good snapshot", repo);
+  if (!good) return;
+  const bad = await deps.timeline.pickSnapshot("Known bad snapshot", repo);
+  if (!bad) return;
+  if (good.id === bad.id) {
+    vscode.window.showErrorMessage(
+      "Gitcrumbs: Pick two different snapshots to bisect between."
+    );
+    return;
+  }
+
+  // Ordered from the good end to the bad end; either may be the newer one
+  const lo = Math.min(good.id, bad.id);
+  const hi = Math.max(good.id, bad.id);
+  const between = deps.timeline
+    .rowsFor(repo)
+    .filter((s) => s.id > lo && s.id < hi)
+    .sort((x, y) => (good.id < bad.id ? x.id - y.id : y.id - x.id));
+  const order: SnapshotRow[] = [good, ...between, bad];
+  if (!between.length) {
+    vscode.window.showInformationMessage(
+      `Gitcrumbs: No snapshots between ${snapshotName(good)} and ${snapshotName(
+        bad
+      )}; ${snapshotName(bad)} is the first bad one.`
+    );
+    return;
+  }
+
+  const test = await pickTest(repo);
+  if (!test) return;
+
+  const steps = Math.ceil(Math.log2(between.length + 1));
+  const start = "Start Bisect";
+  const confirm = await vscode.window.showInformationMessage(
+    `Bisect ${between.length} snapshot${
+      between.length === 1 ? "" : "s"
+    } between ${snapshotName(good)} and ${snapshotName(bad)}?`,
+    {
+      modal: true,
+      detail: `About ${steps} step${
+        steps === 1 ? "" : "s"
+      }. Each candidate is restored with purge and tested with ${
+        test.name
+      }. Your working tree is snapshotted first and put back at the end.`,
+    },
+    start
+  );
+  if (confirm !== start) return;
+
+  // The final restore purges, so it must go back to exactly this tree
+  const returnTo = await deps.timeline.snapshotCurrent(
+    repo,
+    triggerLabel("before bisect")
+  );
+  if (returnTo === null) {
+    vscode.window.showErrorMessage(
+      "Gitcrumbs: Couldn't snapshot the working tree, so the bisect was not started."
+    );
+    return;
+  }
+
+  const out = bisectLog();
+  out.appendLine(
+    `\n=== Bisect ${snapshotName(good)} (good) … ${snapshotName(
+      bad
+    )} (bad) with ${test.name}`
+  );
+
+  const verdicts = new Map<number, Verdict>();
+  let goodIdx = 0;
+  let badIdx = order.length - 1;
+  let error: string | undefined;
+  let cancelled = false;
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Gitcrumbs: Bisecting",
+      cancellable: true,
+    },
+    async (progress, token) => {
+      try {
+        for (;;) {
+          const open: number[] = [];
+          for (let i = goodIdx + 1; i < badIdx; i++) {
+            if (verdicts.get(order[i].id) !== "skip") open.push(i);
+          }
+          if (!open.length) break;
+          if (token.isCancellationRequested) {
+            cancelled = true;
+            break;
+          }
+
+          const idx = open[Math.floor(open.length / 2)];
+          const s = order[idx];
+          progress.report({
+            message: `testing ${snapshotName(s)}, about ${Math.ceil(
+              Math.log2(open.length + 1)
+            )} step(s) left`,
+          });
+
+          const restored = await deps.cli.run(
+            ["restore", String(s.id), "--purge"],
+            repo
+          );
+          if (restored.code !== 0) {
+            error = `Restoring ${snapshotName(
+              s
+            )} failed. ${restored.stderr.trim()}`;
+            break;
+          }
+          out.appendLine(`--- ${snapshotName(s)}: ${test.name}`);
+          const code = await test.run(repo, token);
+          if (token.isCancellationRequested) {
+            cancelled = true;
+            break;
+          }
+          const verdict = verdictFor(code);
+          verdicts.set(s.id, verdict);
+          out.appendLine(
+            `--- ${snapshotName(s)} is ${verdict} (exit ${code ?? "?"})`
+          );
+          if (verdict === "good") goodIdx = idx;
+          else if (verdict === "bad") badIdx = idx;
+        }
+      } finally {
+        progress.report({ message: "putting the working tree back" });
+        const back = await deps.cli.run(
+          ["restore", String(returnTo), "--purge"],
+          repo
+        );
+        if (back.code !== 0) {
+          error = `${
+            error ? `${error} ` : ""
+          }Putting the working tree back failed; restore snapshot #${returnTo} to recover it.`;
+        }
+        await deps.timeline.refresh(repo);
+      }
+    }
+  );
+
+  if (error) {
+    out.appendLine(`=== ${error}`);
+    vscode.window.showErrorMessage(`Gitcrumbs: ${error}`);
+    return;
+  }
+  if (cancelled) {
+    out.appendLine("=== Cancelled");
+    vscode.window.showInformationMessage(
+      "Gitcrumbs: Bisect cancelled; your working tree was put back."
+    );
+    return;
+  }
+
+  const lastGood = order[goodIdx];
+  const firstBad = order[badIdx];
+  const untested = order
+    .slice(goodIdx + 1, badIdx)
+    .filter((s) => verdicts.get(s.id) === "skip");
+  const culprits = [...untested, firstBad].map(snapshotName);
+  const headline = untested.length
+    ? `The first bad snapshot is one of ${culprits.join(
+        ", "
+      )}; the others could not be tested.`
+    : `${snapshotName(firstBad)} is the first bad snapshot.`;
+  out.appendLine(`=== ${headline}`);
+
+  const lines = order
+    .filter((s) => verdicts.has(s.id))
+    .map((s) => `${snapshotName(s)}: ${verdicts.get(s.id)}`);
+  if (lines.length > MAX_LISTED) {
+    lines.splice(
+      MAX_LISTED,
+      lines.length,
+      `…and ${lines.length - MAX_LISTED} more`
+    );
+  }
+
+  const compare = "Compare Last Good ↔ First Bad";
+  const showLog = "Show Log";
+  const choice = await vscode.window.showInformationMessage(
+    `Gitcrumbs: ${headline}`,
+    {
+      modal: true,
+      detail: `Last good: ${snapshotName(
+        lastGood
+      )}. Your working tree was put back.\n\n${lines.join("\n")}`,
+    },
+    compare,
+    showLog
+  );
+  if (choice === compare) {
+    await vscode.commands.executeCommand("gitcrumbs.setSnapshotA", {
+      snapshotId: lastGood.id,
+      repoPath: repo,
+      label: snapshotName(lastGood),
+    });
+    await vscode.commands.executeCommand("gitcrumbs.setSnapshotB", {
+      snapshotId: firstBad.id,
+      repoPath: repo,
+      label: snapshotName(firstBad),
+    });
+    await vscode.commands.executeCommand("gitcrumbs.diff.focus");
+  } else if (choice === showLog) {
+    out.show();
+  }
+}
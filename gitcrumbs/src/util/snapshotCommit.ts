@@ -0,0 +1,313 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as os from "os";
+import { promises as fs } from "fs";
+import type { Cli } from "../infra/cli";
+import type { GitcrumbsClient } from "../infra/client";
+import type { Store } from "../state/store";
+import type { TimelineTreeView } from "../ui/timelineTree";
+import { git, gitOrThrow } from "../infra/git";
+import {
+  WORKING_TREE,
+  type Change,
+  type DiffTarget,
+  type SnapshotRow,
+} from "./types";
+
+type Deps = {
+  cli: Cli;
+  client: GitcrumbsClient;
+  store: Store;
+  timeline: TimelineTreeView;
+};
+
+/** Raw bytes of a file as stored in a snapshot (binary-safe). */
+export async function snapshotBytes(
+  cli: Cli,
+  repo: string,
+  id: number,
+  relPath: string
+): Promise<Buffer> {
+  const proc = cli.runBackground(["show-file", String(id), relPath], repo);
+  const chunks: Buffer[] = [];
+  let stderr = "";
+  proc.stdout.on("data", (b: Buffer) => chunks.push(b));
+  proc.stderr.on("data", (b) => (stderr += b.toString()));
+  const code = await new Promise<number>((resolve) => {
+    proc.on("close", (c) => resolve(c ?? 0));
+    proc.on("error", () => resolve(127));
+  });
+  if (code !== 0) {
+    throw new Error(
+      `show-file ${id} ${relPath} failed: ${stderr.trim() || `exit ${code}`}`
+    );
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Write the git tree object for a snapshot (or the working tree) and
+ * return its id.
+ *
+ * Neither the working tree nor the real index is touched: we stage the
+ * working tree into a scratch copy of the index, then patch in whatever
+ * `diff <id>` says differs between the snapshot and the working tree,
+ * hashing snapshot contents from `show-file`.
+ */
+export async function writeTree(
+  deps: { cli: Cli; client: GitcrumbsClient },
+  repo: string,
+  target: DiffTarget
+): Promise<string> {
+  let changes: Change[] = [];
+  if (target !== WORKING_TREE) {
+    const diff = await deps.client.diff(repo, target, WORKING_TREE);
+    if (!diff.data) {
+      throw new Error(
+        `Could not compare snapshot ${target} with the working tree.`
+      );
+    }
+    changes = diff.data;
+  }
+
+  const realIndex = path.resolve(
+    repo,
+    await gitOrThrow(["rev-parse", "--git-path", "index"], repo)
+  );
+  const scratch = path.join(
+    os.tmpdir(),
+    `gitcrumbs-index-${process.pid}-${Date.now()}`
+  );
+  const env = { GIT_INDEX_FILE: scratch };
+
+  try {
+    // Starting from a copy keeps git's stat cache, so `add -A` is quick.
+    await fs.copyFile(realIndex, scratch).catch(() => undefined);
+    await gitOrThrow(["add", "-A"], repo, { env });
+
+    for (const c of changes) {
+      // "A" = only in the working tree, so not part of the snapshot
+      if (c.kind === "A") {
+        await gitOrThrow(
+          ["update-index", "--force-remove", "--", c.path],
+          repo,
+          {
+            env,
+          }
+        );
+        continue;
+      }
+      const blob = await gitOrThrow(["hash-object", "-w", "--stdin"], repo, {
+        input: await snapshotBytes(deps.cli, repo, target as number, c.path),
+      });
+      // Keep an existing file mode (e.g. executable bit) where we know it
+      const staged = await gitOrThrow(["ls-files", "-s", "--", c.path], repo, {
+        env,
+      });
+      const mode = staged.split(/\s/)[0] || "100644";
+      await gitOrThrow(
+        ["update-index", "--add", "--cacheinfo", `${mode},${blob},${c.path}`],
+        repo,
+        { env }
+      );
+    }
+    return await gitOrThrow(["write-tree"], repo, { env });
+  } finally {
+    await fs.rm(scratch, { force: true });
+  }
+}
+
+/**
+ * Create a commit whose tree is `tree` on top of `parent` (null for an
+ * unborn branch). Returns the new commit id.
+ */
+export async function commitTree(
+  repo: string,
+  tree: string,
+  parent: string | null,
+  message: string
+): Promise<string> {
+  return gitOrThrow(
+    ["commit-tree", tree, ...(parent ? ["-p", parent] : []), "-F", "-"],
+    repo,
+    { input: message }
+  );
+}
+
+/**
+ * Move HEAD (and the branch it points at) to `commit`, then bring the
+ * index in line for the paths that changed, so `git status` does not
+ * report them as staged reverts. The working tree is left alone.
+ */
+export async function advanceHead(
+  repo: string,
+  oldHead: string | null,
+  commit: string,
+  reason: string
+) {
+  await gitOrThrow(
+    ["update-ref", "-m", reason, "HEAD", commit, oldHead ?? ""],
+    repo
+  );
+  const names = oldHead
+    ? await gitOrThrow(["diff", "--name-only", "-z", oldHead, commit], repo)
+    : await gitOrThrow(["ls-tree", "-r", "--name-only", "-z", commit], repo);
+  if (!names.replace(/\0/g, "")) return;
+  await gitOrThrow(
+    ["reset", "-q", commit, "--pathspec-from-file=-", "--pathspec-file-nul"],
+    repo,
+    { input: names }
+  );
+}
+
+/** Whether the index differs from HEAD, i.e. something is staged. */
+export async function hasStagedChanges(repo: string): Promise<boolean> {
+  const res = await git(["diff", "--cached", "--quiet"], repo);
+  return res.code === 1;
+}
+
+/** Current HEAD commit and branch; either is null (unborn / detached). */
+export async function headInfo(
+  repo: string
+): Promise<{ head: string | null; branch: string | null }> {
+  const head = await git(["rev-parse", "--verify", "-q", "HEAD"], repo);
+  const branch = await git(["symbolic-ref", "--short", "-q", "HEAD"], repo);
+  return {
+    head: head.code === 0 ? head.stdout.trim() : null,
+    branch: branch.code === 0 ? branch.stdout.trim() : null,
+  };
+}
+
+/** Prompt for a new branch name that git accepts and that is not taken. */
+export async function promptNewBranch(
+  repo: string,
+  value: string
+): Promise<string | undefined> {
+  return vscode.window.showInputBox({
+    prompt: "New branch name",
+    value,
+    validateInput: async (v: string) => {
+      const name = v.trim();
+      if (!name) return "Enter a branch name";
+      const ok = await git(["check-ref-format", "--branch", name], repo);
+      if (ok.code !== 0) return "Not a valid branch name";
+      const taken = await git(
+        ["rev-parse", "--verify", "-q", `refs/heads/${name}`],
+        repo
+      );
+      return taken.code === 0 ? `Branch '${name}' already exists` : undefined;
+    },
+  });
+}
+
+export function snapshotName(s: SnapshotRow): string {
+  return s.label ?? `#${s.id}`;
+}
+
+/** Label and summary, skipping labels that are just the id. */
+export function defaultMessage(s: SnapshotRow): string {
+  const label = s.label && s.label !== String(s.id) ? s.label : null;
+  const parts = [label, s.summary].filter((p): p is string => !!p?.trim());
+  return parts.length ? parts.join(": ") : `Snapshot ${s.id}`;
+}
+
+/**
+ * Commit a snapshot's files onto the current branch or a new branch,
+ * without checking anything out: the working tree stays as it is.
+ */
+export async function commitSnapshot(
+  item: { snapshotId?: number; repoPath?: string } | undefined,
+  deps: Deps
+) {
+  const repo = item?.repoPath ?? deps.store.repoPath();
+  if (!repo) return;
+
+  const row =
+    item?.snapshotId !== undefined
+      ? deps.timeline.rowsFor(repo).find((s) => s.id === item.snapshotId)
+      : await deps.timeline.pickSnapshot("Commit which snapshot?", repo);
+  if (!row) return;
+
+  const { head, branch } = await headInfo(repo);
+  const target = await vscode.window.showQuickPick(
+    [
+      {
+        label: branch
+          ? `$(git-branch) Commit onto ${branch}`
+          : "$(git-commit) Commit onto the detached HEAD",
+        description: "The working tree is left as it is",
+        newBranch: false,
+      },
+      {
+        label: "$(git-branch-create) Commit onto a new branch…",
+        description: head ? `Branches off ${head.slice(0, 7)}` : undefined,
+        newBranch: true,
+      },
+    ],
+    { placeHolder: `Commit snapshot ${snapshotName(row)}` }
+  );
+  if (!target) return;
+
+  let newBranch: string | undefined;
+  if (target.newBranch) {
+    newBranch = (await promptNewBranch(repo, `snapshot-${row.id}`))?.trim();
+    if (!newBranch) return;
+  }
+
+  const message = await vscode.window.showInputBox({
+    prompt: "Commit message",
+    value: defaultMessage(row),
+    validateInput: (v: string) =>
+      v.trim() ? undefined : "Enter a commit message",
+  });
+  if (!message) return;
+
+  // advanceHead resets the index for the paths the commit changes
+  if (!newBranch && (await hasStagedChanges(repo))) {
+    const proceed = "Commit Anyway";
+    const choice = await vscode.window.showWarningMessage(
+      "You have staged changes.",
+      {
+        modal: true,
+        detail:
+          "Committing the snapshot onto the current branch replaces what is staged for the files it commits with the snapshot's version; your working files are not touched. Commit onto a new branch, or commit your staged changes first, to keep them.",
+      },
+      proceed
+    );
+    if (choice !== proceed) return;
+  }
+
+  try {
+    const commit = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Gitcrumbs: Committing snapshot ${snapshotName(row)}…`,
+      },
+      async () => {
+        const tree = await writeTree(deps, repo, row.id);
+        const sha = await commitTree(repo, tree, head, message);
+        if (newBranch) await gitOrThrow(["branch", newBranch, sha], repo);
+        else
+          await advanceHead(
+            repo,
+            head,
+            sha,
+            `gitcrumbs: commit snapshot ${row.id}`
+          );
+        return sha;
+      }
+    );
+    vscode.window.showInformationMessage(
+      `Gitcrumbs: Committed snapshot ${snapshotName(row)} as ${commit.slice(
+        0,
+        7
+      )} on ${newBranch ? `new branch ${newBranch}` : branch ?? "HEAD"}.`
+    );
+  } catch (e: any) {
+    vscode.window.showErrorMessage(
+      `Gitcrumbs: Failed to commit snapshot ${snapshotName(row)}. ${
+        e?.message ?? e
+      }`
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import type { Cli } from "../infra/cli";
+import type { Store } from "../state/store";
+import { WORKING_TREE, type DiffTarget } from "./types";
+
+export const SNAPSHOT_SCHEME = "gitcrumbs-snapshot";
+
+/**
+ * Build a read-only URI for `relPath` as stored in snapshot `id`.
+ *
+ * Shape: gitcrumbs-snapshot:/<id>/<relPath>?<repo>
+ * The path ends with the real file name, so VS Code picks the right
+ * language mode and icon for the diff tab.
+ */
+export function snapshotUri(
+  id: number,
+  relPath: string,
+  repoPath: string
+): vscode.Uri {
+  const rel = relPath.replace(/\\/g, "/").replace(/^\/+/, "");
+  return vscode.Uri.from({
+    scheme: SNAPSHOT_SCHEME,
+    path: `/${id}/${rel}`,
+    query: repoPath,
+  });
+}
+
+/**
+ * URI for one side of a diff: the real (editable) workspace file for the
+ * working tree, otherwise the read-only snapshot document.
+ */
+export function targetUri(
+  target: DiffTarget,
+  relPath: string,
+  repoPath: string
+): vscode.Uri {
+  if (target === WORKING_TREE)
+    return vscode.Uri.file(path.join(repoPath, relPath));
+  return snapshotUri(target, relPath, repoPath);
+}
+
+/** Short display name for a diff side, e.g. "12" or "Working Tree". */
+export function targetName(target: DiffTarget): string {
+  return target === WORKING_TREE ? "Working Tree" : String(target);
+}
+
+/** Inverse of snapshotUri(). Returns null for URIs we don't recognise. */
+export function parseSnapshotUri(
+  uri: vscode.Uri
+): { id: number; relPath: string; repoPath: string | undefined } | null {
+  if (uri.scheme !== SNAPSHOT_SCHEME) return null;
+  const m = uri.path.match(/^\/(\d+)\/(.+)$/);
+  if (!m) return null;
+  return {
+    id: Number(m[1]),
+    relPath: m[2],
+    repoPath: uri.query || undefined,
+  };
+}
+
+/**
+ * Serves snapshot file contents through `gitcrumbs show-file`.
+ *
+ * Snapshots are immutable, so successful results are cached per URI for
+ * the lifetime of the extension. A missing file (e.g. added/deleted in one
+ * side of a diff) or a failed call resolves to an empty document so the
+ * diff editor still opens; failures are logged and retried next time.
+ */
+export class SnapshotContentProvider
+  implements vscode.TextDocumentContentProvider
+{
+  private cache = new Map<string, string>();
+
+  constructor(private readonly cli: Cli, private readonly store: Store) {}
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const key = uri.toString();
+    const cached = this.cache.get(key);
+    if (cached !== undefined) return cached;
+
+    const parsed = parseSnapshotUri(uri);
+    const repo = parsed?.repoPath ?? this.store.repoPath();
+    if (!parsed || !repo) return "";
+
+    const res = await this.cli.run(
+      ["show-file", String(parsed.id), parsed.relPath],
+      repo
+    );
+    if (res.code !== 0) {
+      // Not cached: the CLI may just be unavailable or busy right now
+      console.error(
+        `[gitcrumbs] show-file ${parsed.id} ${parsed.relPath} failed:`,
+        res.stderr.trim() || `exit ${res.code}`
+      );
+      return "";
+    }
+    this.cache.set(key, res.stdout);
+    return res.stdout;
+  }
+}
@@ -0,0 +1,224 @@
+import * as vscode from "vscode";
+import type { Cli } from "../infra/cli";
+import type { GitcrumbsClient } from "../infra/client";
+import type { Store } from "../state/store";
+import type { TimelineTreeView } from "../ui/timelineTree";
+import { gitOrThrow } from "../infra/git";
+import {
+  commitTree,
+  defaultMessage,
+  headInfo,
+  promptNewBranch,
+  snapshotName,
+  writeTree,
+} from "./snapshotCommit";
+import type { DiffTarget, SnapshotRow } from "./types";
+
+type Deps = {
+  cli: Cli;
+  client: GitcrumbsClient;
+  store: Store;
+  timeline: TimelineTreeView;
+  getPair: () => { a?: DiffTarget; b?: DiffTarget; repo?: string };
+};
+
+type PlannedCommit = {
+  snapshot: SnapshotRow;
+  // Snapshots folded into this commit (unpicked ones before it, then itself)
+  covers: SnapshotRow[];
+  message: string;
+  tree: string;
+  stat: string;
+};
+
+const MAX_PREVIEWED = 20;
+
+/** Both ends of the range: the Diff view's A/B if they are snapshots, else ask. */
+async function pickRange(
+  deps: Deps
+): Promise<{ repo: string; lo: number; hi: number } | undefined> {
+  const { a, b, repo } = deps.getPair();
+  if (repo && typeof a === "number" && typeof b === "number") {
+    return { repo, lo: Math.min(a, b), hi: Math.max(a, b) };
+  }
+  const target = repo ?? deps.store.repoPath();
+  if (!target) return undefined;
+  const first = await deps.timeline.pickSnapshot(
+    "First snapshot of the series",
+    target
+  );
+  if (!first) return undefined;
+  const last = await deps.timeline.pickSnapshot(
+    "Last snapshot of the series",
+    target
+  );
+  if (!last) return undefined;
+  return {
+    repo: target,
+    lo: Math.min(first.id, last.id),
+    hi: Math.max(first.id, last.id),
+  };
+}
+
+/**
+ * Turn the snapshots between A and B into a series of commits on a new
+ * branch, oldest first.
+ *
+ * Each picked snapshot becomes one commit; unpicked snapshots are folded
+ * into the next picked one, so picking fewer snapshots gives coarser
+ * commits. Trees are built before the preview, but no commit or branch is
+ * created until the user confirms, and the working tree is never touched.
+ */
+export async function commitSnapshotSeries(deps: Deps) {
+  const range = await pickRange(deps);
+  if (!range) return;
+  const { repo, lo, hi } = range;
+
+  const rows = deps.timeline
+    .rowsFor(repo)
+    .filter((s) => s.id >= lo && s.id <= hi)
+    .sort((x, y) => x.id - y.id);
+  if (!rows.length) {
+    vscode.window.showInformationMessage(
+      `Gitcrumbs: No snapshots between #${lo} and #${hi}.`
+    );
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    rows.map((s) => ({
+      label: snapshotName(s),
+      description: `${s.created_at} · ${s.branch ?? "?"}`,
+      detail: s.summary ?? undefined,
+      picked: true,
+      row: s,
+    })),
+    {
+      canPickMany: true,
+      placeHolder:
+        "Pick the snapshots to commit; unpicked ones are folded into the next picked one",
+    }
+  );
+  if (!picked?.length) return;
+  const keep = new Set(picked.map((p) => p.row.id));
+
+  // Group each run of unpicked snapshots with the picked one that ends it;
+  // a trailing run after the last pick is dropped.
+  const groups: SnapshotRow[][] = [];
+  let run: SnapshotRow[] = [];
+  for (const s of rows) {
+    run.push(s);
+    if (keep.has(s.id)) {
+      groups.push(run);
+      run = [];
+    }
+  }
+
+  const branch = (await promptNewBranch(repo, `snapshots-${lo}-${hi}`))?.trim();
+  if (!branch) return;
+
+  const messages: string[] = [];
+  for (const [i, covers] of groups.entries()) {
+    const s = covers[covers.length - 1];
+    const message = await vscode.window.showInputBox({
+      title: `Commit ${i + 1} of ${groups.length}`,
+      prompt:
+        covers.length > 1
+          ? `Message for snapshots ${covers.map(snapshotName).join(", ")}`
+          : `Message for snapshot ${snapshotName(s)}`,
+      value: defaultMessage(s),
+      validateInput: (v: string) =>
+        v.trim() ? undefined : "Enter a commit message",
+    });
+    if (!message) return;
+    messages.push(message);
+  }
+
+  const { head } = await headInfo(repo);
+  let plan: PlannedCommit[];
+  try {
+    plan = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Gitcrumbs: Preparing commit series…",
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const out: PlannedCommit[] = [];
+        let prevTree = head
+          ? await gitOrThrow(["rev-parse", `${head}^{tree}`], repo)
+          : null;
+        for (const [i, covers] of groups.entries()) {
+          if (token.isCancellationRequested)
+            throw new vscode.CancellationError();
+          const snapshot = covers[covers.length - 1];
+          progress.report({
+            message: `${snapshotName(snapshot)} (${i + 1}/${groups.length})`,
+          });
+          const tree = await writeTree(deps, repo, snapshot.id);
+          const stat = prevTree
+            ? await gitOrThrow(["diff", "--shortstat", prevTree, tree], repo)
+            : "initial commit";
+          out.push({ snapshot, covers, message: messages[i], tree, stat });
+          prevTree = tree;
+        }
+        return out;
+      }
+    );
+  } catch (e: any) {
+    if (e instanceof vscode.CancellationError) return;
+    vscode.window.showErrorMessage(
+      `Gitcrumbs: Could not prepare the commit series. ${e?.message ?? e}`
+    );
+    return;
+  }
+
+  const lines = plan.map(
+    (c, i) =>
+      `${i + 1}. ${c.message.split("\n")[0]}\n    ${c.covers
+        .map(snapshotName)
+        .join(", ")} — ${c.stat || "no changes, skipped"}`
+  );
+  if (lines.length > MAX_PREVIEWED) {
+    lines.splice(
+      MAX_PREVIEWED,
+      lines.length,
+      `…and ${plan.length - MAX_PREVIEWED} more`
+    );
+  }
+  const count = plan.filter((c) => c.stat).length;
+  const create = "Create Branch";
+  const choice = await vscode.window.showInformationMessage(
+    `Create branch '${branch}' with ${count} commit${count === 1 ? "" : "s"}?`,
+    {
+      modal: true,
+      detail: `Based on ${
+        head ? head.slice(0, 7) : "an empty history"
+      }. Your working tree is not changed.\n\n${lines.join("\n")}`,
+    },
+    create
+  );
+  if (choice !== create) return;
+
+  try {
+    let parent = head;
+    let made = 0;
+    for (const c of plan) {
+      // Identical trees would only produce empty commits
+      if (!c.stat) continue;
+      parent = await commitTree(repo, c.tree, parent, c.message);
+      made++;
+    }
+    if (!parent) throw new Error("Nothing to commit.");
+    await gitOrThrow(["branch", branch, parent], repo);
+    vscode.window.showInformationMessage(
+      `Gitcrumbs: Created branch ${branch} with ${made} commit${
+        made === 1 ? "" : "s"
+      }.`
+    );
+  } catch (e: any) {
+    vscode.window.showErrorMessage(
+      `Gitcrumbs: Failed to create the commit series. ${e?.message ?? e}`
+    );
+  }
+}
@@ -1,2 +1,7 @@
-export type SnapshotRow = { id:number; created_at:string; branch:string; summary:string; restored_from_snapshot_id:number|null };
+export type SnapshotRow = { id:number; label:string|null; created_at:string; branch:string|null; summary:string|null; restored_from_snapshot_id:number|null; head_commit?:string|null };
 export type FileStateRow = { snapshot_id:number; path:string; status:'T'|'U'|'D'; blob_sha:string; size:number|null; mtime:number|null };
+export type ChangeKind = 'A'|'M'|'D';
+export type Change = { path:string; kind:ChangeKind };
+export type StatusInfo = { cursorId:number|null };
+export const WORKING_TREE = 'working' as const;
+export type DiffTarget = number|typeof WORKING_TREE;